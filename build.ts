@@ -13,7 +13,15 @@ const jsrJson = await Deno.readTextFile("./deno.json");
 const config: Config = JSON.parse(jsrJson);
 
 await build({
-  entryPoints: ["./index.ts"],
+  entryPoints: [
+    "./index.ts",
+    { name: "./container", path: "./container.ts" },
+    { name: "./testing", path: "./testing.ts" },
+    { name: "./graph", path: "./graph.ts" },
+    { name: "./context", path: "./context.ts" },
+    { name: "./check", path: "./check.ts" },
+    { kind: "bin", name: "injecfn-check", path: "./cli.ts" },
+  ],
   outDir: "./dist",
   shims: {
     deno: false,
@@ -23,7 +31,7 @@ await build({
   compilerOptions: {
     ...config.compilerOptions,
     target: "ES2015",
-    lib: ["ES2015"],
+    lib: ["ES2015", "ES2021.Promise", "ES2022.Error", "ESNext.Disposable"],
   },
 
   package: {
@@ -46,5 +54,17 @@ await build({
     // steps to run after building and before running the tests
     Deno.copyFileSync("LICENSE", "dist/LICENSE");
     Deno.copyFileSync("README.md", "dist/README.md");
+
+    // Only the wiring checker needs TypeScript, so it uses the project's own
+    // compiler instead of installing one with every other entry point.
+    const packageJson = JSON.parse(Deno.readTextFileSync("dist/package.json"));
+    const { typescript, ...dependencies } = packageJson.dependencies;
+    packageJson.dependencies = dependencies;
+    packageJson.peerDependencies = { typescript };
+    packageJson.peerDependenciesMeta = { typescript: { optional: true } };
+    Deno.writeTextFileSync(
+      "dist/package.json",
+      JSON.stringify(packageJson, null, 2) + "\n",
+    );
   },
 });
@@ -0,0 +1,288 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import ts from "typescript";
+import {
+  checkWiring,
+  createWiringProgram,
+  formatJson,
+  formatText,
+  main,
+  type WiringReport,
+} from "./check.ts";
+
+// --- Test Setup: Fixture Projects ---
+
+const directory = import.meta.dirname!;
+const injecfn = `${directory}/index.ts`;
+const fixture = `${directory}/fixture.ts`;
+
+// Serves the fixture from memory, so that only the compiler reads from disk.
+const createFixtureHost = (source: string): ts.CompilerHost => {
+  const host = ts.createCompilerHost({});
+  const { fileExists, readFile } = host;
+  host.fileExists = (file) => file === fixture || fileExists(file);
+  host.readFile = (file) => file === fixture ? source : readFile(file);
+  return host;
+};
+
+const check = (source: string): WiringReport => {
+  const report = checkWiring(
+    createWiringProgram({ files: [fixture], host: createFixtureHost(source) }),
+  );
+  return {
+    ...report,
+    issues: report.issues.filter((issue) =>
+      fixture.endsWith(issue.location.file)
+    ),
+  };
+};
+
+// --- Test Suite ---
+
+describe("checkWiring", () => {
+  describe("Unwired Constructors", () => {
+    it("should report constructors that are never used", () => {
+      const { constructors, issues } = check(`
+        import { defineFn } from "${injecfn}";
+
+        const constructGreet = defineFn({ prefix: "Hello" }, ({ prefix }) => prefix);
+      `);
+
+      expect(constructors).toBe(1);
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        kind: "unwired-constructor",
+        constructorName: "constructGreet",
+        message: "constructGreet is never constructed",
+        location: { line: 4, column: 15 },
+      });
+    });
+
+    it("should accept constructors that are called or passed on", () => {
+      const { constructors, calls, issues } = check(`
+        import { defineAsyncFn, defineFn, required } from "${injecfn}";
+
+        const constructA = defineFn({ a: 1 }, ({ a }) => a);
+        const constructB = defineAsyncFn({ b: 1 }, ({ b }) => b);
+        const constructC = defineFn({ c: required<number>() }, ({ c }) => c);
+
+        export const container = { constructA, b: constructB };
+        constructC({ c: 1 });
+      `);
+
+      expect({ constructors, calls, issues }).toEqual({
+        constructors: 3,
+        calls: 1,
+        issues: [],
+      });
+    });
+
+    it("should not count imports, re-exports and typeof as uses", () => {
+      const { issues } = check(`
+        import { defineMethods } from "${injecfn}";
+
+        const constructMethods = defineMethods({ a: 1 }, {
+          get: ({ a }) => a,
+        });
+
+        export type Methods = ReturnType<typeof constructMethods>;
+        export { constructMethods };
+      `);
+
+      expect(issues.map((issue) => issue.kind)).toEqual([
+        "unwired-constructor",
+      ]);
+    });
+
+    it("should ignore functions with the same names from other modules", () => {
+      const { constructors } = check(`
+        const defineFn = (deps: object, f: () => void) => f;
+
+        const constructNothing = defineFn({}, () => {});
+      `);
+
+      expect(constructors).toBe(0);
+    });
+  });
+
+  describe("Dead Defaults", () => {
+    it("should report defaults that are overridden at every call", () => {
+      const { issues } = check(`
+        import { defineFn, optional, required } from "${injecfn}";
+
+        const constructGreet = defineFn(
+          {
+            prefix: "Hello",
+            suffix: "!",
+            name: required<string>(),
+            title: optional<string>(),
+          },
+          ({ prefix, suffix, name }) => prefix + name + suffix,
+        );
+
+        constructGreet({ prefix: "Hi", name: "Alice", title: "Dr." });
+        constructGreet({ prefix: "Hey", name: "Bob" });
+      `);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        kind: "dead-default",
+        constructorName: "constructGreet",
+        key: "prefix",
+        message:
+          'The default of "prefix" of constructGreet is overridden at every call (2)',
+        location: { line: 6, column: 13 },
+      });
+    });
+
+    it("should not report defaults when other uses may keep them", () => {
+      const { issues } = check(`
+        import { defineFn } from "${injecfn}";
+
+        const constructA = defineFn({ a: 1 }, ({ a }) => a);
+        const constructB = defineFn({ b: 1 }, ({ b }) => b);
+        const constructC = defineFn({ c: 1 }, ({ c }) => c);
+
+        const overrides = { c: 2 };
+        constructA({ a: 2 });
+        export const container = { constructA };
+        constructB({ b: 2 });
+        constructB();
+        constructC({ ...overrides, c: 3 });
+      `);
+
+      expect(issues).toEqual([]);
+    });
+  });
+
+  describe("Unsafe Overrides", () => {
+    it("should report dependencies provided through unsafe casts", () => {
+      const { issues } = check(`
+        import { defineFn, required } from "${injecfn}";
+
+        interface Db {
+          find(id: string): string;
+        }
+        declare const untyped: any;
+
+        const constructFind = defineFn(
+          { db: required<Db>(), prefix: "" },
+          ({ db, prefix }, id: string) => prefix + db.find(id),
+        );
+
+        constructFind({ db: {} as any });
+        constructFind({ db: "db" as unknown as Db });
+        constructFind({ db: untyped });
+        constructFind({ db: { find: (id) => id } });
+        constructFind({} as any);
+      `);
+
+      expect(issues.map(({ kind, key, message }) => ({ kind, key, message })))
+        .toEqual([
+          {
+            kind: "unsafe-override",
+            key: "db",
+            message:
+              '"db" of constructFind is provided through an `as any` cast',
+          },
+          {
+            kind: "unsafe-override",
+            key: "db",
+            message:
+              '"db" of constructFind is provided through an `as unknown as` cast',
+          },
+          {
+            kind: "unsafe-override",
+            key: "db",
+            message:
+              '"db" of constructFind is provided through a value of type `any`',
+          },
+          {
+            kind: "unsafe-override",
+            key: undefined,
+            message:
+              "The requirements of constructFind are provided through an `as any` cast",
+          },
+        ]);
+    });
+  });
+});
+
+describe("formatText", () => {
+  const report: WiringReport = {
+    constructors: 2,
+    calls: 1,
+    issues: [{
+      kind: "unwired-constructor",
+      constructorName: "constructGreet",
+      message: "constructGreet is never constructed",
+      location: { file: "src/greet.ts", line: 3, column: 7 },
+    }],
+  };
+
+  it("should print one line per issue and a summary", () => {
+    expect(formatText(report)).toBe(
+      "src/greet.ts:3:7 unwired-constructor constructGreet is never constructed\n" +
+        "1 wiring issue in 2 constructors (1 calls)\n",
+    );
+  });
+
+  it("should print only the summary without issues", () => {
+    expect(formatText({ ...report, issues: [] })).toBe(
+      "No wiring issues in 2 constructors (1 calls)\n",
+    );
+  });
+
+  it("should round-trip the report as JSON", () => {
+    expect(JSON.parse(formatJson(report))).toEqual(report);
+  });
+});
+
+describe("main", () => {
+  const run = (args: string[]) => {
+    let output = "";
+    const code = main(args, (text) => output += text);
+    return { code, output };
+  };
+
+  it("should exit with 1 and print the issues if any are found", () => {
+    const { code, output } = run([
+      "--json",
+      `${directory}/testdata/unwired_constructor.ts`,
+    ]);
+
+    expect(code).toBe(1);
+    expect(JSON.parse(output).issues).toMatchObject([
+      { kind: "unwired-constructor", constructorName: "constructA" },
+    ]);
+  });
+
+  it("should exit with 0 without issues", () => {
+    expect(run([injecfn])).toEqual({
+      code: 0,
+      output: "No wiring issues in 0 constructors (0 calls)\n",
+    });
+  });
+
+  it("should exit with 2 for invalid arguments", () => {
+    const { code, output } = run(["--unknown"]);
+
+    expect(code).toBe(2);
+    expect(output).toContain("Unknown option: --unknown");
+    expect(run(["--project"]).code).toBe(2);
+  });
+
+  it("should exit with 2 for files that do not exist", () => {
+    const { code, output } = run([injecfn, "does/not/exist.ts"]);
+
+    expect(code).toBe(2);
+    expect(output).toBe("Cannot find file: does/not/exist.ts\n");
+  });
+
+  it("should exit with 2 for projects that cannot be read", () => {
+    const { code, output } = run(["--project", "does/not/exist.json"]);
+
+    expect(code).toBe(2);
+    expect(output).toContain("does/not/exist.json");
+  });
+});
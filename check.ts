@@ -0,0 +1,612 @@
+import ts from "typescript";
+
+/**
+ * A position in a source file, with 1-based line and column numbers.
+ */
+export interface SourceLocation {
+  /** The path of the file, relative to the current directory of the program. */
+  readonly file: string;
+  readonly line: number;
+  readonly column: number;
+}
+
+/**
+ * A problem with how a constructor is wired, found by `checkWiring`.
+ *
+ * - `unwired-constructor`: The constructor is never called nor passed on,
+ *   e.g. to `createContainer`, `nested` or `partial`.
+ * - `dead-default`: A default is overridden at every call of the constructor,
+ *   so it is never used.
+ * - `unsafe-override`: A dependency is provided through an `as any` or
+ *   `as unknown as` cast, or as a value of type `any`, so it is not type-checked.
+ */
+export interface WiringIssue {
+  readonly kind: "unwired-constructor" | "dead-default" | "unsafe-override";
+  /** The name of the variable the constructor is assigned to. */
+  readonly constructorName: string;
+  /** The key of the dependency, if the issue concerns one. */
+  readonly key?: string;
+  readonly message: string;
+  readonly location: SourceLocation;
+}
+
+/**
+ * The result of `checkWiring`.
+ */
+export interface WiringReport {
+  /** The number of constructors found. */
+  readonly constructors: number;
+  /** The number of calls of those constructors found. */
+  readonly calls: number;
+  /** The issues found, sorted by location. */
+  readonly issues: readonly WiringIssue[];
+}
+
+/**
+ * The functions of injecfn that define a constructor.
+ */
+const defineFunctions = [
+  "defineFn",
+  "defineAsyncFn",
+  "defineGenericFn",
+  "defineMethods",
+  "defineClass",
+];
+
+/**
+ * A constructor defined by one of the `defineFunctions`, and what is known
+ * about how it is used.
+ */
+interface DefinedConstructor {
+  readonly name: ts.Identifier;
+  /** The keys of the dependencies with defaults, and where they are defined. */
+  readonly defaults: Map<string, ts.Node>;
+  readonly calls: ts.CallExpression[];
+  /** Whether the constructor is used other than by calling it, e.g. in a container. */
+  passedOn: boolean;
+}
+
+function skipOuterExpressions(node: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(node) || ts.isSatisfiesExpression(node) ||
+    ts.isNonNullExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+function propertyName(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteralLike(name) ||
+      ts.isNumericLiteral(name)
+    ? name.text
+    : undefined;
+}
+
+function locationOf(node: ts.Node, currentDirectory: string): SourceLocation {
+  const sourceFile = node.getSourceFile();
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile),
+  );
+  const prefix = currentDirectory.replace(/\/?$/, "/");
+  const file = sourceFile.fileName.indexOf(prefix) === 0
+    ? sourceFile.fileName.slice(prefix.length)
+    : sourceFile.fileName;
+  return { file, line: line + 1, column: character + 1 };
+}
+
+function compareIssues(a: WiringIssue, b: WiringIssue): number {
+  const { file: fileA, line: lineA, column: columnA } = a.location;
+  const { file: fileB, line: lineB, column: columnB } = b.location;
+  return (fileA < fileB ? -1 : fileA > fileB ? 1 : 0) || lineA - lineB ||
+    columnA - columnB || (a.kind < b.kind ? -1 : a.kind > b.kind ? 1 : 0);
+}
+
+/**
+ * Finds the constructors defined with injecfn in a program, and reports
+ * constructors that are never wired, defaults that are overridden at every
+ * call and dependencies provided through unsafe casts.
+ *
+ * Constructors are found where the result of `defineFn`, `defineAsyncFn`,
+ * `defineGenericFn`, `defineMethods` or `defineClass` is assigned to a
+ * variable. Defaults are only reported as dead when every use of the
+ * constructor is a call with an object literal, as other uses may leave them
+ * in place.
+ *
+ * @param program - The program to check, e.g. created by `createWiringProgram`.
+ * @returns The issues found, sorted by location.
+ * @example
+ * ```ts
+ * const report = checkWiring(createWiringProgram({ files: ["src"] }));
+ *
+ * console.log(formatText(report));
+ * ```
+ */
+export function checkWiring(program: ts.Program): WiringReport {
+  const checker = program.getTypeChecker();
+  const currentDirectory = program.getCurrentDirectory();
+  const sourceFiles = program.getSourceFiles().filter((sourceFile) =>
+    !sourceFile.isDeclarationFile &&
+    !program.isSourceFileFromExternalLibrary(sourceFile)
+  );
+  const injecfnModules = new Map<ts.SourceFile, boolean>();
+  const constructors = new Map<ts.Symbol, DefinedConstructor>();
+
+  // injecfn is recognized by the `definitionSymbol` it exports, so that it is
+  // found however it is imported, including from its own sources.
+  const isInjecfnModule = (sourceFile: ts.SourceFile) => {
+    let result = injecfnModules.get(sourceFile);
+    if (result === undefined) {
+      const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+      result = !!moduleSymbol &&
+        checker.getExportsOfModule(moduleSymbol).some((symbol) =>
+          symbol.name === "definitionSymbol"
+        );
+      injecfnModules.set(sourceFile, result);
+    }
+    return result;
+  };
+
+  const resolveAlias = (symbol: ts.Symbol) =>
+    symbol.flags & ts.SymbolFlags.Alias
+      ? checker.getAliasedSymbol(symbol)
+      : symbol;
+
+  const symbolOf = (node: ts.Identifier) => {
+    const symbol = ts.isShorthandPropertyAssignment(node.parent)
+      ? checker.getShorthandAssignmentValueSymbol(node.parent)
+      : checker.getSymbolAtLocation(node);
+    return symbol && resolveAlias(symbol);
+  };
+
+  /** Whether `callee` is one of the `names` exported by injecfn. */
+  const isInjecfnFunction = (
+    callee: ts.Expression,
+    names: readonly string[],
+  ) => {
+    const name = ts.isPropertyAccessExpression(callee) ? callee.name : callee;
+    if (!ts.isIdentifier(name)) {
+      return false;
+    }
+    const local = checker.getSymbolAtLocation(name);
+    if (!local) {
+      return false;
+    }
+    const symbol = resolveAlias(local);
+    const declaration = symbol.declarations?.[0];
+    if (!declaration) {
+      // The module could not be resolved, e.g. a `jsr:` specifier, so the
+      // import is recognized by its specifier instead.
+      const specifier = local.declarations?.[0];
+      if (!specifier || !ts.isImportSpecifier(specifier)) {
+        return false;
+      }
+      const imported = (specifier.propertyName ?? specifier.name).text;
+      const { moduleSpecifier } = specifier.parent.parent.parent;
+      return names.indexOf(imported) !== -1 &&
+        ts.isStringLiteral(moduleSpecifier) &&
+        /injecfn/.test(moduleSpecifier.text);
+    }
+    return names.indexOf(symbol.name) !== -1 &&
+      isInjecfnModule(declaration.getSourceFile());
+  };
+
+  const collectDefaults = (dependencies: ts.Expression | undefined) => {
+    const defaults = new Map<string, ts.Node>();
+    if (!dependencies) {
+      return defaults;
+    }
+    dependencies = skipOuterExpressions(dependencies);
+    if (!ts.isObjectLiteralExpression(dependencies)) {
+      return defaults;
+    }
+    for (const property of dependencies.properties) {
+      if (
+        !ts.isPropertyAssignment(property) &&
+        !ts.isShorthandPropertyAssignment(property)
+      ) {
+        continue;
+      }
+      const key = propertyName(property.name);
+      const value = ts.isPropertyAssignment(property)
+        ? skipOuterExpressions(property.initializer)
+        : undefined;
+      const isPlaceholder = !!value && ts.isCallExpression(value) &&
+        isInjecfnFunction(value.expression, ["required", "optional"]);
+      if (key !== undefined && !isPlaceholder) {
+        defaults.set(key, property);
+      }
+    }
+    return defaults;
+  };
+
+  const findConstructors = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      isInjecfnFunction(node.expression, defineFunctions)
+    ) {
+      let parent = node.parent;
+      while (
+        ts.isParenthesizedExpression(parent) || ts.isAsExpression(parent) ||
+        ts.isSatisfiesExpression(parent)
+      ) {
+        parent = parent.parent;
+      }
+      if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+        const symbol = checker.getSymbolAtLocation(parent.name);
+        if (symbol) {
+          constructors.set(symbol, {
+            name: parent.name,
+            defaults: collectDefaults(node.arguments[0]),
+            calls: [],
+            passedOn: false,
+          });
+        }
+      }
+    }
+    ts.forEachChild(node, findConstructors);
+  };
+
+  const findUses = (node: ts.Node): void => {
+    if (ts.isIdentifier(node)) {
+      const symbol = symbolOf(node);
+      const constructor = symbol && constructors.get(symbol);
+      if (constructor && node !== constructor.name) {
+        recordUse(constructor, node);
+      }
+    }
+    ts.forEachChild(node, findUses);
+  };
+
+  const recordUse = (constructor: DefinedConstructor, node: ts.Identifier) => {
+    let parent = node.parent;
+    while (ts.isQualifiedName(parent)) {
+      parent = parent.parent;
+    }
+    // Imports, re-exports and `typeof` do not wire the constructor.
+    if (
+      ts.isImportSpecifier(parent) || ts.isImportClause(parent) ||
+      ts.isExportSpecifier(parent) || ts.isExportAssignment(parent) ||
+      ts.isTypeQueryNode(parent)
+    ) {
+      return;
+    }
+
+    const callee = ts.isPropertyAccessExpression(parent) && parent.name === node
+      ? parent
+      : node;
+    if (
+      ts.isCallExpression(callee.parent) && callee.parent.expression === callee
+    ) {
+      constructor.calls.push(callee.parent);
+    } else {
+      constructor.passedOn = true;
+    }
+  };
+
+  const unsafeReason = (value: ts.Expression) => {
+    value = skipOuterExpressions(value);
+    if (ts.isAsExpression(value) || ts.isTypeAssertionExpression(value)) {
+      if (value.type.kind === ts.SyntaxKind.AnyKeyword) {
+        return "an `as any` cast";
+      }
+      const inner = skipOuterExpressions(value.expression);
+      if (
+        (ts.isAsExpression(inner) || ts.isTypeAssertionExpression(inner)) &&
+        inner.type.kind === ts.SyntaxKind.UnknownKeyword
+      ) {
+        return "an `as unknown as` cast";
+      }
+    }
+    return checker.getTypeAtLocation(value).flags & ts.TypeFlags.Any
+      ? "a value of type `any`"
+      : undefined;
+  };
+
+  for (const sourceFile of sourceFiles) {
+    findConstructors(sourceFile);
+  }
+  for (const sourceFile of sourceFiles) {
+    findUses(sourceFile);
+  }
+
+  const issues: WiringIssue[] = [];
+  let calls = 0;
+
+  for (const constructor of constructors.values()) {
+    const constructorName = constructor.name.text;
+    calls += constructor.calls.length;
+
+    if (constructor.calls.length === 0 && !constructor.passedOn) {
+      issues.push({
+        kind: "unwired-constructor",
+        constructorName,
+        message: `${constructorName} is never constructed`,
+        location: locationOf(constructor.name, currentDirectory),
+      });
+      continue;
+    }
+
+    const provided: Set<string>[] = [];
+    for (const call of constructor.calls) {
+      const requirements = call.arguments[0];
+      const keys = new Set<string>();
+      provided.push(keys);
+      if (!requirements) {
+        continue;
+      }
+
+      const reason = unsafeReason(requirements);
+      if (reason) {
+        issues.push({
+          kind: "unsafe-override",
+          constructorName,
+          message:
+            `The requirements of ${constructorName} are provided through ${reason}`,
+          location: locationOf(requirements, currentDirectory),
+        });
+        continue;
+      }
+
+      const object = skipOuterExpressions(requirements);
+      if (!ts.isObjectLiteralExpression(object)) {
+        provided.pop();
+        continue;
+      }
+      for (const property of object.properties) {
+        if (ts.isSpreadAssignment(property)) {
+          // A spread may provide any key, so none can be counted as missing.
+          provided.pop();
+          break;
+        }
+        const key = property.name && propertyName(property.name);
+        if (key === undefined) {
+          continue;
+        }
+        keys.add(key);
+
+        const value = ts.isPropertyAssignment(property)
+          ? property.initializer
+          : ts.isShorthandPropertyAssignment(property)
+          ? property.name
+          : undefined;
+        const reason = value && unsafeReason(value);
+        if (reason) {
+          issues.push({
+            kind: "unsafe-override",
+            constructorName,
+            key,
+            message:
+              `"${key}" of ${constructorName} is provided through ${reason}`,
+            location: locationOf(property, currentDirectory),
+          });
+        }
+      }
+    }
+
+    // Defaults can only be dead if every use is a call whose keys are known.
+    if (constructor.passedOn || provided.length < constructor.calls.length) {
+      continue;
+    }
+    for (const [key, node] of constructor.defaults) {
+      if (provided.every((keys) => keys.has(key))) {
+        issues.push({
+          kind: "dead-default",
+          constructorName,
+          key,
+          message:
+            `The default of "${key}" of ${constructorName} is overridden at every call (${constructor.calls.length})`,
+          location: locationOf(node, currentDirectory),
+        });
+      }
+    }
+  }
+
+  return {
+    constructors: constructors.size,
+    calls,
+    issues: issues.sort(compareIssues),
+  };
+}
+
+/**
+ * Options for `createWiringProgram`.
+ */
+export interface WiringProgramOptions {
+  /** The path of a `tsconfig.json` whose files are checked. */
+  readonly project?: string;
+  /** Files, or directories of files, to check instead of those of a project. */
+  readonly files?: readonly string[];
+  /**
+   * The compiler host that reads the files of the program, e.g. to check
+   * sources held in memory. Defaults to one that reads them from disk, and
+   * directories are always listed from disk.
+   */
+  readonly host?: ts.CompilerHost;
+}
+
+/**
+ * The compiler options used when files are checked without a project. They
+ * accept the `.ts` imports of Deno projects.
+ */
+const defaultCompilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  allowImportingTsExtensions: true,
+  allowJs: true,
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+};
+
+/**
+ * Creates the program that `checkWiring` checks, from files and directories or
+ * from a `tsconfig.json`.
+ *
+ * @param options - The files or the project to check.
+ * @returns The program.
+ * @throws {Error} If the project cannot be read, or a file does not exist.
+ */
+export function createWiringProgram(
+  options: WiringProgramOptions,
+): ts.Program {
+  const { project, files = [], host } = options;
+
+  if (project) {
+    const { config, error } = ts.readConfigFile(project, ts.sys.readFile);
+    if (error) {
+      throw new Error(
+        ts.flattenDiagnosticMessageText(error.messageText, "\n"),
+      );
+    }
+    const parsed = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      project.replace(/[^/\\]*$/, "") || ".",
+    );
+    return ts.createProgram(
+      parsed.fileNames,
+      { ...parsed.options, noEmit: true },
+      host,
+    );
+  }
+
+  const fileExists = (file: string) =>
+    host ? host.fileExists(file) : ts.sys.fileExists(file);
+  const fileNames: string[] = [];
+  const missing: string[] = [];
+  for (const file of files) {
+    if (ts.sys.directoryExists(file)) {
+      fileNames.push(
+        ...ts.sys.readDirectory(
+          file,
+          [".ts", ".tsx", ".mts", ".cts"],
+          ["**/node_modules/**"],
+        ),
+      );
+    } else if (fileExists(file)) {
+      fileNames.push(file);
+    } else {
+      missing.push(file);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(`Cannot find file: ${missing.join(", ")}`);
+  }
+  return ts.createProgram(fileNames, defaultCompilerOptions, host);
+}
+
+/**
+ * Formats a wiring report as text, one issue per line, followed by a summary.
+ *
+ * @param report - A report returned by `checkWiring`.
+ * @returns The report as text.
+ */
+export function formatText(report: WiringReport): string {
+  const lines = report.issues.map(({ kind, message, location }) =>
+    `${location.file}:${location.line}:${location.column} ${kind} ${message}`
+  );
+  const found = report.issues.length === 0
+    ? "No wiring issues"
+    : `${report.issues.length} wiring issue${
+      report.issues.length === 1 ? "" : "s"
+    }`;
+  lines.push(
+    `${found} in ${report.constructors} constructors (${report.calls} calls)`,
+  );
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Formats a wiring report as JSON, for use in CI.
+ *
+ * @param report - A report returned by `checkWiring`.
+ * @returns The report as indented JSON.
+ */
+export function formatJson(report: WiringReport): string {
+  return JSON.stringify(
+    {
+      constructors: report.constructors,
+      calls: report.calls,
+      issues: report.issues.map((issue) => ({
+        kind: issue.kind,
+        constructorName: issue.constructorName,
+        key: issue.key,
+        message: issue.message,
+        location: issue.location,
+      })),
+    },
+    null,
+    2,
+  ) + "\n";
+}
+
+const usage =
+  `Usage: injecfn-check [--json] [--project <tsconfig.json>] [files...]
+
+Reports injecfn constructors that are never constructed, defaults that are
+overridden at every call, and dependencies provided through unsafe casts.
+Files may be directories. Without files, the files of the project are checked,
+which defaults to tsconfig.json.
+
+Exits with 1 if any issue is found, and with 2 if the arguments are invalid
+or a file cannot be read.
+`;
+
+/**
+ * Runs the wiring checker as a command.
+ *
+ * @param args - The command-line arguments.
+ * @param write - Writes the output. Defaults to the standard output.
+ * @returns The exit code: `0` without issues, `1` with issues, and `2` for invalid arguments or files that cannot be read.
+ */
+export function main(
+  args: readonly string[],
+  write: (text: string) => void = (text) => ts.sys.write(text),
+): number {
+  let json = false;
+  let project: string | undefined;
+  const files: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--project" || arg === "-p") {
+      project = args[++i];
+      if (!project) {
+        write(usage);
+        return 2;
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      write(usage);
+      return 0;
+    } else if (arg.charAt(0) === "-") {
+      write(`Unknown option: ${arg}\n\n${usage}`);
+      return 2;
+    } else {
+      files.push(arg);
+    }
+  }
+
+  if (files.length === 0 && !project) {
+    if (!ts.sys.fileExists("tsconfig.json")) {
+      write(usage);
+      return 2;
+    }
+    project = "tsconfig.json";
+  }
+
+  let program: ts.Program;
+  try {
+    program = createWiringProgram({ project, files });
+  } catch (error) {
+    write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 2;
+  }
+
+  const report = checkWiring(program);
+  write(json ? formatJson(report) : formatText(report));
+  return report.issues.length === 0 ? 0 : 1;
+}
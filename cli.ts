@@ -0,0 +1,4 @@
+import ts from "typescript";
+import { main } from "./check.ts";
+
+ts.sys.exit(main(ts.sys.args));
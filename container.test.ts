@@ -0,0 +1,180 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { assertType, type IsExact } from "@std/testing/types";
+import { defineFn, MissingDependencyError, required } from "./index.ts";
+import { CircularDependencyError, createContainer } from "./container.ts";
+
+// --- Test Setup: Mocks and Interfaces ---
+
+interface User {
+  id: string;
+  name: string;
+}
+
+interface Database {
+  findUser(id: string): User | undefined;
+}
+
+interface Logger {
+  log(message: string): void;
+  history: string[];
+}
+
+const createMockLogger = (): Logger => ({
+  history: [],
+  log(message: string) {
+    this.history.push(message);
+  },
+});
+
+const mockDatabase: Database = {
+  findUser: (id) => (id === "1" ? { id, name: "Alice" } : undefined),
+};
+
+const constructFindUser = defineFn(
+  { db: required<Database>() },
+  ({ db }, id: string) => db.findUser(id),
+);
+
+const constructGreetUser = defineFn(
+  {
+    findUser: required<(id: string) => User | undefined>(),
+    logger: createMockLogger(),
+  },
+  ({ findUser, logger }, id: string) => {
+    const message = `Hello, ${findUser(id)?.name ?? "stranger"}`;
+    logger.log(message);
+    return message;
+  },
+);
+
+// --- Test Suite ---
+
+describe("createContainer", () => {
+  describe("Core Behavior", () => {
+    it("should resolve required dependencies from other registrations", () => {
+      const container = createContainer({
+        greetUser: constructGreetUser,
+        findUser: constructFindUser,
+        db: mockDatabase,
+      });
+
+      expect(container.get("greetUser")("1")).toBe("Hello, Alice");
+      expect(container.get("db")).toBe(mockDatabase);
+    });
+
+    it("should construct dependencies before their dependents", () => {
+      const container = createContainer({
+        greetUser: constructGreetUser,
+        findUser: constructFindUser,
+        db: mockDatabase,
+      });
+
+      expect(container.order).toEqual(["db", "findUser", "greetUser"]);
+    });
+
+    it("should construct each registration only once", () => {
+      const constructCounter = defineFn({}, () => 0);
+      const constructReader = defineFn(
+        { counter: required<() => number>() },
+        ({ counter }) => counter,
+      );
+      const container = createContainer({
+        counter: constructCounter,
+        first: constructReader,
+        second: constructReader,
+      });
+
+      expect(container.get("first")()).toBe(container.get("counter"));
+      expect(container.get("second")()).toBe(container.get("counter"));
+    });
+
+    it("should override defaults with registrations of the same key", () => {
+      const logger = createMockLogger();
+      const container = createContainer({
+        greetUser: constructGreetUser,
+        findUser: constructFindUser,
+        db: mockDatabase,
+        logger,
+      });
+
+      container.get("greetUser")("2");
+      expect(logger.history).toEqual(["Hello, stranger"]);
+    });
+  });
+
+  describe("Cycle Detection", () => {
+    it("should throw a CircularDependencyError with a readable path", () => {
+      const constructA = defineFn(
+        { b: required<() => string>() },
+        ({ b }) => b(),
+      );
+      const constructB = defineFn(
+        { c: required<() => string>() },
+        ({ c }) => c(),
+      );
+      const constructC = defineFn(
+        { b: required<() => string>() },
+        ({ b }) => b(),
+      );
+
+      try {
+        createContainer({ a: constructA, b: constructB, c: constructC });
+        throw new Error("Expected createContainer to throw");
+      } catch (error) {
+        expect(error).toBeInstanceOf(CircularDependencyError);
+        expect((error as CircularDependencyError).path).toEqual([
+          "b",
+          "c",
+          "b",
+        ]);
+        expect((error as CircularDependencyError).message).toBe(
+          "Circular dependency detected: b -> c -> b",
+        );
+      }
+    });
+  });
+
+  describe("Type System Integration", () => {
+    it("should infer the resolved types of registrations", () => {
+      const container = createContainer({
+        greetUser: constructGreetUser,
+        findUser: constructFindUser,
+        db: mockDatabase,
+      });
+
+      type GreetUser = ReturnType<typeof container.get<"greetUser">>;
+      type Db = ReturnType<typeof container.get<"db">>;
+
+      assertType<IsExact<GreetUser, (id: string) => string>>(true);
+      assertType<IsExact<Db, Database>>(true);
+    });
+
+    it("should produce a type error if a required registration is missing", () => {
+      expect(() =>
+        createContainer({
+          // @ts-expect-error The `db` registration is missing.
+          findUser: constructFindUser,
+        })
+      ).toThrow(MissingDependencyError);
+    });
+
+    it("should produce a type error if a registration has the wrong type", () => {
+      createContainer({
+        // @ts-expect-error `db` is not a `Database`.
+        findUser: constructFindUser,
+        db: "not a database",
+      });
+    });
+
+    it("should produce a type error if an override of a default has the wrong type", () => {
+      createContainer({
+        // @ts-expect-error `logger` is not a `Logger`.
+        greetUser: constructGreetUser,
+        findUser: constructFindUser,
+        db: mockDatabase,
+        logger: 42,
+      });
+    });
+  });
+});
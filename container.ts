@@ -0,0 +1,170 @@
+import {
+  CircularDependencyError,
+  definitionSymbol,
+  type FnDefinition,
+  type Requirements,
+} from "./index.ts";
+
+export { CircularDependencyError };
+
+/**
+ * A constructor created by `defineFn`, identified by the definition it carries.
+ * @template T - The dependency definition object of the constructor.
+ * @internal
+ */
+type DefinedConstructor<T extends Record<string, unknown>> = {
+  readonly [definitionSymbol]: FnDefinition<T>;
+};
+
+/**
+ * Resolves the type a registration contributes to the container:
+ * the constructed function for constructors, and the value itself otherwise.
+ * @template V - The registered value.
+ * @internal
+ */
+export type Resolved<V> = V extends
+  & DefinedConstructor<Record<string, unknown>>
+  & ((...args: never) => infer Fn) ? Fn
+  : V;
+
+/**
+ * The keys of `Requirements<T>` that the registrations `R` fail to satisfy,
+ * either because a required key is not registered or because the registered
+ * value has the wrong type.
+ * @internal
+ */
+type UnsatisfiedKeys<
+  R extends Record<string, unknown>,
+  T extends Record<string, unknown>,
+> = {
+  [K in keyof Requirements<T>]-?: K extends keyof R
+    ? [Resolved<R[K]>] extends [Requirements<T>[K]] ? never : K
+    // Keys with defaults may be left unregistered; required keys may not.
+    : Record<never, never> extends Pick<Requirements<T>, K> ? never
+    : K;
+}[keyof Requirements<T>];
+
+/**
+ * Replaces every constructor whose requirements cannot be satisfied by the
+ * other registrations with a descriptive string type, so that passing it to
+ * `createContainer` becomes a compile error that names the offending keys.
+ * @internal
+ */
+type CheckedRegistrations<R extends Record<string, unknown>> = {
+  [K in keyof R]: R[K] extends DefinedConstructor<infer T>
+    ? [UnsatisfiedKeys<R, T>] extends [never] ? R[K]
+    : `Unsatisfied dependency "${UnsatisfiedKeys<R, T> & string}"`
+    : R[K];
+};
+
+/**
+ * @internal
+ * A unique symbol under which a container exposes the registrations it was created from.
+ */
+export const registrationsSymbol = Symbol("registrations");
+
+/**
+ * A wired graph of dependencies created by `createContainer`.
+ * @template R - The registrations the container was created from.
+ */
+export interface Container<R extends Record<string, unknown>> {
+  /**
+   * Returns the resolved registration for a key: the constructed function for
+   * constructors, and the registered value otherwise.
+   * @param key - The key the dependency was registered under.
+   */
+  get<K extends keyof R & string>(key: K): Resolved<R[K]>;
+
+  /**
+   * The registered keys in the order they were constructed, dependencies first.
+   */
+  readonly order: readonly (keyof R & string)[];
+
+  /**
+   * @internal
+   * The registrations this container was created from.
+   */
+  readonly [registrationsSymbol]: R;
+}
+
+const hasOwn = Object.prototype.hasOwnProperty;
+
+function isDefinedConstructor(
+  value: unknown,
+): value is
+  & DefinedConstructor<Record<string, unknown>>
+  & ((requirements: Record<string, unknown>) => unknown) {
+  return typeof value === "function" && definitionSymbol in value;
+}
+
+/**
+ * Creates a container that wires a whole graph of `defineFn` constructors.
+ *
+ * Each registration is either a plain value or a constructor. The required
+ * dependencies of every constructor are resolved by key from the other
+ * registrations, and registered keys also override defaults of the same name.
+ * Constructors are called in topological order, so dependencies are always
+ * constructed before their dependents.
+ *
+ * @template R - The registrations object.
+ * @param registrations - An object mapping keys to plain values or constructors.
+ * @returns A container from which resolved dependencies can be retrieved.
+ * @throws {CircularDependencyError} If constructors depend on each other in a cycle.
+ * @example
+ * ```ts
+ * const container = createContainer({
+ *   db: new Database(),
+ *   findUser: constructFindUser, // requires `db`
+ *   sendEmail: constructSendEmail, // requires `findUser`
+ * });
+ *
+ * const sendEmail = container.get("sendEmail");
+ * ```
+ */
+export function createContainer<R extends Record<string, unknown>>(
+  registrations: R & CheckedRegistrations<R>,
+): Container<R> {
+  const resolved = new Map<string, unknown>();
+  const order: (keyof R & string)[] = [];
+
+  const resolve = (key: string, path: readonly string[]): unknown => {
+    if (resolved.has(key)) {
+      return resolved.get(key);
+    }
+    const cycleStart = path.indexOf(key);
+    if (cycleStart !== -1) {
+      throw new CircularDependencyError([...path.slice(cycleStart), key]);
+    }
+
+    const registration = registrations[key];
+    let value: unknown = registration;
+
+    if (isDefinedConstructor(registration)) {
+      const requirements: Record<string, unknown> = {};
+      for (
+        const dependency of Object.keys(
+          registration[definitionSymbol].dependencies,
+        )
+      ) {
+        if (hasOwn.call(registrations, dependency)) {
+          requirements[dependency] = resolve(dependency, [...path, key]);
+        }
+      }
+      value = registration(requirements);
+    }
+
+    resolved.set(key, value);
+    order.push(key);
+    return value;
+  };
+
+  for (const key of Object.keys(registrations)) {
+    resolve(key, []);
+  }
+
+  return {
+    get: (key) => resolved.get(key) as Resolved<R[typeof key]>,
+    order,
+    [registrationsSymbol]: registrations,
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { assertType, type IsExact } from "@std/testing/types";
+import { defineAsyncFn, defineFn, describeFn, required } from "./index.ts";
+import { createContext, fromContext, MissingContextError } from "./context.ts";
+
+// --- Test Setup: Mocks and Interfaces ---
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const requestIdContext = createContext<string>("requestId");
+const userContext = createContext<User | undefined>("user");
+
+const constructDescribeRequest = defineFn(
+  {
+    requestId: fromContext(requestIdContext),
+    user: fromContext(userContext),
+  },
+  ({ requestId, user }, action: string) =>
+    `[${requestId}] ${user?.name ?? "anonymous"} ${action}`,
+);
+
+const alice: User = { id: "1", name: "Alice" };
+
+// --- Test Suite ---
+
+describe("createContext", () => {
+  describe("Core Behavior", () => {
+    it("should read the value of the innermost run", () => {
+      expect(
+        requestIdContext.run("outer", () => [
+          requestIdContext.get(),
+          requestIdContext.run("inner", () => requestIdContext.get()),
+          requestIdContext.get(),
+        ]),
+      ).toEqual(["outer", "inner", "outer"]);
+    });
+
+    it("should keep the value across await", async () => {
+      const value = await requestIdContext.run("abc", async () => {
+        await Promise.resolve();
+        return requestIdContext.get();
+      });
+
+      expect(value).toBe("abc");
+    });
+
+    it("should throw a MissingContextError outside of run", () => {
+      expect(() => requestIdContext.get()).toThrow(MissingContextError);
+      expect(() => requestIdContext.get()).toThrow(
+        'Context "requestId" was read outside of a call to its run() method',
+      );
+    });
+
+    it("should accept undefined as a value", () => {
+      expect(userContext.run(undefined, () => userContext.get()))
+        .toBeUndefined();
+    });
+  });
+});
+
+describe("fromContext", () => {
+  describe("Core Behavior", () => {
+    it("should read the context when the function is called", () => {
+      const describeRequest = constructDescribeRequest();
+
+      const results = [
+        requestIdContext.run(
+          "a",
+          () => userContext.run(alice, () => describeRequest("logged in")),
+        ),
+        requestIdContext.run(
+          "b",
+          () => userContext.run(undefined, () => describeRequest("visited")),
+        ),
+      ];
+
+      expect(results).toEqual([
+        "[a] Alice logged in",
+        "[b] anonymous visited",
+      ]);
+    });
+
+    it("should throw a MissingContextError when called outside of run", () => {
+      const describeRequest = constructDescribeRequest();
+
+      expect(() => describeRequest("visited")).toThrow(MissingContextError);
+    });
+
+    it("should accept explicit values instead of the context", () => {
+      const describeRequest = constructDescribeRequest({
+        requestId: "explicit",
+        user: alice,
+      });
+
+      expect(describeRequest("logged in")).toBe("[explicit] Alice logged in");
+    });
+
+    it("should work with async constructors", async () => {
+      const construct = defineAsyncFn(
+        {
+          db: required<(id: string) => Promise<string>>(),
+          requestId: fromContext(requestIdContext),
+        },
+        async ({ db, requestId }, id: string) =>
+          `[${requestId}] ${await db(id)}`,
+      );
+
+      const find = await construct({
+        db: (id) => Promise.resolve(`row ${id}`),
+      });
+
+      expect(await requestIdContext.run("c", () => find("1"))).toBe(
+        "[c] row 1",
+      );
+    });
+
+    it("should be described as a transient factory", () => {
+      expect(describeFn(constructDescribeRequest).dependencies.requestId)
+        .toEqual({ kind: "factory", lifetime: "transient" });
+    });
+  });
+
+  describe("Type System Integration", () => {
+    it("should infer the types of context dependencies", () => {
+      const describeRequest = constructDescribeRequest();
+
+      assertType<
+        IsExact<typeof describeRequest, (action: string) => string>
+      >(true);
+
+      // @ts-expect-error `requestId` must be a string.
+      constructDescribeRequest({ requestId: 1 });
+    });
+  });
+});
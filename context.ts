@@ -0,0 +1,109 @@
+import {
+  type AmbientStorage,
+  createAmbientStorage,
+  type PerCallFactory,
+  transient,
+} from "./index.ts";
+
+/**
+ * An error thrown when a context is read outside of a call to its `run` method.
+ */
+export class MissingContextError extends Error {
+  override name = "MissingContextError";
+  /** The name of the context that was read. */
+  readonly contextName: string;
+
+  constructor(contextName: string) {
+    super(
+      `Context "${contextName}" was read outside of a call to its run() method`,
+    );
+    this.contextName = contextName;
+  }
+}
+
+/**
+ * An ambient value, such as a request id or the current user, that follows
+ * the call chain instead of being passed through every layer. Created by
+ * `createContext`.
+ * @template T - The type of the value.
+ */
+export interface Context<T> {
+  /** The name of the context, used in error messages. */
+  readonly name: string;
+  /**
+   * Runs `fn` with `value` as the value of this context. Constructed functions
+   * called from `fn`, including after `await` where `AsyncLocalStorage` is
+   * available, read `value` from their `fromContext()` dependencies.
+   * @param value - The value of the context while `fn` runs.
+   * @param fn - The function to run.
+   * @returns The return value of `fn`.
+   */
+  run<R>(value: T, fn: () => R): R;
+  /**
+   * Returns the value of the innermost `run` call.
+   * @throws {MissingContextError} If it is called outside of `run`.
+   */
+  get(): T;
+}
+
+/**
+ * Creates a context for an ambient value.
+ *
+ * Where `AsyncLocalStorage` is available (Node.js 20.16 and 22.3 or later,
+ * Deno, Bun), the value follows the call chain across `await`. Elsewhere, it is
+ * only visible to code that runs synchronously inside `run`; pass the value explicitly instead, by
+ * overriding the dependency when constructing the function.
+ *
+ * @template T - The type of the value.
+ * @param name - The name of the context, used in error messages.
+ * @returns A new context, without a value until `run` is called.
+ * @example
+ * ```ts
+ * const requestIdContext = createContext<string>("requestId");
+ *
+ * app.use((request, next) =>
+ *   requestIdContext.run(request.headers["x-request-id"], next)
+ * );
+ * ```
+ */
+export function createContext<T>(name: string): Context<T> {
+  // The value is boxed so that `undefined` can be a value of the context.
+  const storage: AmbientStorage<{ readonly value: T }> = createAmbientStorage();
+
+  return {
+    name,
+    run: (value, fn) => storage.run({ value }, fn),
+    get() {
+      const store = storage.getStore();
+      if (!store) {
+        throw new MissingContextError(name);
+      }
+      return store.value;
+    },
+  };
+}
+
+/**
+ * Marks a dependency whose value is read from a context.
+ *
+ * The value is read on every call of the constructed function rather than
+ * when it is constructed, so one function can serve every request. Calling
+ * the function outside of the context's `run` throws a `MissingContextError`.
+ * Like any other dependency, it can be overridden with a plain value.
+ *
+ * @template T - The type of the value.
+ * @param context - The context to read the value from.
+ * @returns A marker that resolves to the value of the context for the current call.
+ * @example
+ * ```ts
+ * const constructLog = defineFn({
+ *   requestId: fromContext(requestIdContext),
+ * }, ({ requestId }, message: string) => console.log(`[${requestId}] ${message}`));
+ *
+ * const log = constructLog();
+ * requestIdContext.run("abc", () => log("Hello")); // "[abc] Hello"
+ * ```
+ */
+export function fromContext<T>(context: Context<T>): PerCallFactory<T> {
+  return transient(() => context.get());
+}
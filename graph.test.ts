@@ -0,0 +1,227 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { defineAsyncFn, defineFn, optional, required } from "./index.ts";
+import { createContainer } from "./container.ts";
+import { buildGraph, toDot, toJson, toMermaid } from "./graph.ts";
+
+// --- Test Setup: Mocks and Interfaces ---
+
+interface User {
+  id: string;
+  name: string;
+}
+
+interface Database {
+  findUser(id: string): User | undefined;
+}
+
+interface Logger {
+  log(message: string): void;
+}
+
+const mockDatabase: Database = {
+  findUser: (id) => ({ id, name: "Alice" }),
+};
+
+const mockLogger: Logger = { log: () => {} };
+
+const constructFindUser = defineFn(
+  { db: required<Database>() },
+  ({ db }, id: string) => db.findUser(id),
+  { name: "findUserById", description: "Looks up a user." },
+);
+
+const constructGreetUser = defineFn(
+  {
+    findUser: required<(id: string) => User | undefined>(),
+    logger: mockLogger,
+  },
+  ({ findUser, logger }, id: string) => {
+    logger.log(`Hello, ${findUser(id)?.name}`);
+  },
+);
+
+const constructLoadConfig = defineAsyncFn(
+  { config: required<Record<string, string>>() },
+  ({ config }) => config,
+);
+
+// --- Test Suite ---
+
+describe("buildGraph", () => {
+  it("should build sorted nodes and edges from registrations", () => {
+    const graph = buildGraph({
+      greetUser: constructGreetUser,
+      logger: mockLogger,
+      findUser: constructFindUser,
+      db: mockDatabase,
+    });
+
+    expect(graph).toEqual({
+      nodes: [
+        { id: "db", kind: "value" },
+        {
+          id: "findUser",
+          kind: "constructor",
+          name: "findUserById",
+          description: "Looks up a user.",
+          async: false,
+        },
+        { id: "greetUser", kind: "constructor", async: false },
+        { id: "logger", kind: "value" },
+      ],
+      edges: [
+        { from: "findUser", to: "db", kind: "required", satisfied: true },
+        {
+          from: "greetUser",
+          to: "findUser",
+          kind: "required",
+          satisfied: true,
+        },
+        { from: "greetUser", to: "logger", kind: "default", satisfied: true },
+      ],
+    });
+  });
+
+  it("should mark unsatisfied requirements with missing nodes", () => {
+    const graph = buildGraph({
+      greetUser: constructGreetUser,
+      loadConfig: constructLoadConfig,
+    });
+
+    expect(graph).toEqual({
+      nodes: [
+        { id: "config", kind: "missing" },
+        { id: "findUser", kind: "missing" },
+        { id: "greetUser", kind: "constructor", async: false },
+        { id: "loadConfig", kind: "constructor", async: true },
+      ],
+      edges: [
+        {
+          from: "greetUser",
+          to: "findUser",
+          kind: "required",
+          satisfied: false,
+        },
+        {
+          from: "loadConfig",
+          to: "config",
+          kind: "required",
+          satisfied: false,
+        },
+      ],
+    });
+  });
+
+  it("should add edges to optional dependencies only when registered", () => {
+    const constructTrack = defineFn(
+      { logger: optional<Logger>(), metrics: optional<Logger>() },
+      () => {},
+    );
+
+    const graph = buildGraph({ track: constructTrack, logger: mockLogger });
+
+    expect(graph.nodes.map((node) => node.id)).toEqual(["logger", "track"]);
+    expect(graph.edges).toEqual([
+      { from: "track", to: "logger", kind: "optional", satisfied: true },
+    ]);
+    expect(toDot(graph)).toContain('"track" -> "logger" [style=dotted];');
+    expect(toMermaid(graph)).toContain("track -.-> logger");
+  });
+
+  it("should build the graph of a container", () => {
+    const registrations = {
+      greetUser: constructGreetUser,
+      findUser: constructFindUser,
+      db: mockDatabase,
+    };
+
+    expect(buildGraph(createContainer(registrations))).toEqual(
+      buildGraph(registrations),
+    );
+  });
+});
+
+describe("Graph Formats", () => {
+  const graph = buildGraph({
+    greetUser: constructGreetUser,
+    findUser: constructFindUser,
+    logger: mockLogger,
+    "user-config": { locale: "en" },
+    loadConfig: defineFn(
+      {
+        "user-config": required<Record<string, string>>(),
+        secrets: required<Record<string, string>>(),
+      },
+      () => {},
+    ),
+  });
+
+  it("should format the graph as DOT", () => {
+    expect(toDot(graph)).toBe(
+      [
+        "digraph dependencies {",
+        "  rankdir=LR;",
+        '  "db" [label="db", shape=ellipse, style=dashed, color=red];',
+        '  "findUser" [label="findUser (findUserById)", shape=box];',
+        '  "greetUser" [label="greetUser", shape=box];',
+        '  "loadConfig" [label="loadConfig", shape=box];',
+        '  "logger" [label="logger", shape=ellipse];',
+        '  "secrets" [label="secrets", shape=ellipse, style=dashed, color=red];',
+        '  "user-config" [label="user-config", shape=ellipse];',
+        '  "findUser" -> "db" [color=red];',
+        '  "greetUser" -> "findUser";',
+        '  "greetUser" -> "logger" [style=dashed];',
+        '  "loadConfig" -> "secrets" [color=red];',
+        '  "loadConfig" -> "user-config";',
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should format the graph as Mermaid", () => {
+    expect(toMermaid(graph)).toBe(
+      [
+        "flowchart LR",
+        '  db(["db"]):::missing',
+        '  findUser["findUser (findUserById)"]',
+        '  greetUser["greetUser"]',
+        '  loadConfig["loadConfig"]',
+        '  logger(["logger"])',
+        '  secrets(["secrets"]):::missing',
+        '  node_user_45_config(["user-config"])',
+        "  findUser --> db",
+        "  greetUser --> findUser",
+        "  greetUser -.-> logger",
+        "  loadConfig --> secrets",
+        "  loadConfig --> node_user_45_config",
+        "  classDef missing stroke:#d00,stroke-dasharray:4 4",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should format the graph as stable JSON", () => {
+    const json = toJson(graph);
+
+    expect(JSON.parse(json)).toEqual(graph);
+    expect(
+      toJson(buildGraph({
+        logger: mockLogger,
+        "user-config": { locale: "en" },
+        findUser: constructFindUser,
+        greetUser: constructGreetUser,
+        loadConfig: constructLoadConfig,
+      })),
+    ).toBe(
+      toJson(buildGraph({
+        loadConfig: constructLoadConfig,
+        greetUser: constructGreetUser,
+        findUser: constructFindUser,
+        "user-config": { locale: "en" },
+        logger: mockLogger,
+      })),
+    );
+  });
+});
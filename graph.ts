@@ -0,0 +1,261 @@
+import { definitionSymbol, describeFn, type FnDefinition } from "./index.ts";
+import { type Container, registrationsSymbol } from "./container.ts";
+
+/**
+ * A node of a dependency graph.
+ *
+ * - `constructor`: A registered constructor created by `defineFn` or `defineAsyncFn`.
+ * - `value`: A registered plain value.
+ * - `missing`: A required dependency that is not registered.
+ */
+export interface GraphNode {
+  /** The key the dependency is registered, or required, under. */
+  readonly id: string;
+  readonly kind: "constructor" | "value" | "missing";
+  /** The display name of a constructor, if it differs from its key. */
+  readonly name?: string;
+  /** The description of a constructor, if it has one. */
+  readonly description?: string;
+  /** Whether a constructor was created by `defineAsyncFn`. */
+  readonly async?: boolean;
+}
+
+/**
+ * An edge of a dependency graph, pointing from a constructor to one of its dependencies.
+ *
+ * - `required`: The dependency is marked with `required<T>()`.
+ * - `optional`: The dependency is marked with `optional<T>()` and registered.
+ * - `default`: The dependency has a default, which the registration overrides.
+ */
+export interface GraphEdge {
+  readonly from: string;
+  readonly to: string;
+  readonly kind: "required" | "optional" | "default";
+  /** Whether a registration exists for the dependency. */
+  readonly satisfied: boolean;
+}
+
+/**
+ * A dependency graph, with nodes sorted by `id` and edges sorted by `from`, then `to`.
+ */
+export interface DependencyGraph {
+  readonly nodes: readonly GraphNode[];
+  readonly edges: readonly GraphEdge[];
+}
+
+function isDefinedConstructor(
+  value: unknown,
+): value is {
+  readonly [definitionSymbol]: FnDefinition<Record<string, unknown>>;
+} {
+  return typeof value === "function" && definitionSymbol in value;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Builds the dependency graph of a set of registrations or a container.
+ *
+ * Every registration becomes a node. Every dependency of a registered
+ * constructor that is registered as well becomes an edge, and so does every
+ * required dependency that is not, pointing to a `missing` node. Defaults that
+ * are not overridden by a registration are left out.
+ *
+ * @param input - An object mapping keys to constructors or plain values, as passed to `createContainer`, or a container.
+ * @returns The dependency graph, sorted so that it can be diffed over time.
+ * @example
+ * ```ts
+ * const graph = buildGraph({
+ *   db: new Database(),
+ *   findUser: constructFindUser,
+ *   sendEmail: constructSendEmail,
+ * });
+ *
+ * console.log(toMermaid(graph));
+ * ```
+ */
+export function buildGraph<R extends Record<string, unknown>>(
+  input: R | Container<R>,
+): DependencyGraph {
+  const registrations: Record<string, unknown> = registrationsSymbol in input
+    ? (input as Container<R>)[registrationsSymbol]
+    : input;
+  const registered = new Set(Object.keys(registrations));
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  for (const id of registered) {
+    const registration = registrations[id];
+    if (!isDefinedConstructor(registration)) {
+      nodes.set(id, { id, kind: "value" });
+      continue;
+    }
+
+    const { name, description, async, dependencies } = describeFn(
+      registration,
+    );
+    nodes.set(id, {
+      id,
+      kind: "constructor",
+      ...(name && name !== id ? { name } : {}),
+      ...(description ? { description } : {}),
+      async,
+    });
+
+    for (const to of Object.keys(dependencies)) {
+      const described = dependencies[to]?.kind;
+      const kind = described === "required" || described === "optional"
+        ? described
+        : "default";
+      const satisfied = registered.has(to);
+      if (satisfied || kind === "required") {
+        edges.push({ from: id, to, kind, satisfied });
+      }
+    }
+  }
+
+  for (const { to, satisfied } of edges) {
+    if (!satisfied) {
+      nodes.set(to, { id: to, kind: "missing" });
+    }
+  }
+
+  return {
+    nodes: [...nodes.values()].sort((a, b) => compare(a.id, b.id)),
+    edges: edges.sort((a, b) => compare(a.from, b.from) || compare(a.to, b.to)),
+  };
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Formats a dependency graph as Graphviz DOT.
+ *
+ * Constructors are drawn as boxes and values as ellipses. Edges to required
+ * dependencies are solid, edges to overridden defaults are dashed, edges to
+ * optional dependencies are dotted, and missing dependencies are drawn in red.
+ *
+ * @param graph - A graph built by `buildGraph`.
+ * @returns The DOT source of the graph.
+ */
+export function toDot(graph: DependencyGraph): string {
+  const lines = ["digraph dependencies {", "  rankdir=LR;"];
+
+  for (const node of graph.nodes) {
+    const attributes = [
+      `label=${quoteDot(node.name ? `${node.id} (${node.name})` : node.id)}`,
+      `shape=${node.kind === "constructor" ? "box" : "ellipse"}`,
+    ];
+    if (node.kind === "missing") {
+      attributes.push("style=dashed", "color=red");
+    }
+    lines.push(`  ${quoteDot(node.id)} [${attributes.join(", ")}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = [];
+    if (edge.kind === "default") {
+      attributes.push("style=dashed");
+    }
+    if (edge.kind === "optional") {
+      attributes.push("style=dotted");
+    }
+    if (!edge.satisfied) {
+      attributes.push("color=red");
+    }
+    lines.push(
+      `  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${
+        attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""
+      };`,
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Returns an identifier that Mermaid accepts for a node id. Ids that are
+ * already valid are kept, so that diagrams stay readable and stable.
+ */
+function mermaidId(id: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(id)
+    ? id
+    : `node_${id.replace(/[^A-Za-z0-9_]/g, (c) => `_${c.charCodeAt(0)}_`)}`;
+}
+
+function quoteMermaid(value: string): string {
+  return `"${value.replace(/"/g, "#quot;")}"`;
+}
+
+/**
+ * Formats a dependency graph as a Mermaid flowchart.
+ *
+ * Constructors are drawn as rectangles and values as stadiums. Edges to
+ * required dependencies are solid, edges to overridden defaults and optional
+ * dependencies are dotted, and missing dependencies use the `missing` class.
+ *
+ * @param graph - A graph built by `buildGraph`.
+ * @returns The Mermaid source of the graph.
+ */
+export function toMermaid(graph: DependencyGraph): string {
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    const label = quoteMermaid(
+      node.name ? `${node.id} (${node.name})` : node.id,
+    );
+    const shape = node.kind === "constructor" ? `[${label}]` : `([${label}])`;
+    lines.push(
+      `  ${mermaidId(node.id)}${shape}${
+        node.kind === "missing" ? ":::missing" : ""
+      }`,
+    );
+  }
+
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === "required" ? "-->" : "-.->";
+    lines.push(`  ${mermaidId(edge.from)} ${arrow} ${mermaidId(edge.to)}`);
+  }
+
+  if (graph.nodes.some((node) => node.kind === "missing")) {
+    lines.push("  classDef missing stroke:#d00,stroke-dasharray:4 4");
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Formats a dependency graph as JSON.
+ *
+ * The output only depends on the graph, not on the order of registrations,
+ * so it can be committed and diffed over time.
+ *
+ * @param graph - A graph built by `buildGraph`.
+ * @returns The graph as indented JSON.
+ */
+export function toJson(graph: DependencyGraph): string {
+  return JSON.stringify(
+    {
+      nodes: graph.nodes.map((node) => ({
+        id: node.id,
+        kind: node.kind,
+        name: node.name,
+        description: node.description,
+        async: node.async,
+      })),
+      edges: graph.edges.map((edge) => ({
+        from: edge.from,
+        to: edge.to,
+        kind: edge.kind,
+        satisfied: edge.satisfied,
+      })),
+    },
+    null,
+    2,
+  ) + "\n";
+}
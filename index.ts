@@ -4,84 +4,2526 @@
  */
 export const requiredSymbol = Symbol("required");
 
+/**
+ * @internal
+ * A unique symbol that exempts a provided value from validation, e.g. a test stub.
+ */
+export const uncheckedSymbol = Symbol("unchecked");
+
+/**
+ * An issue reported by a Standard Schema validator.
+ */
+export interface StandardSchemaIssue {
+  /** The error message of the issue. */
+  readonly message: string;
+  /** The path to the invalid part of the value, if it is nested. */
+  readonly path?:
+    | ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+    | undefined;
+}
+
+/**
+ * The result of a Standard Schema validation.
+ * @template Output - The type of the validated value.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A validator that implements the Standard Schema interface (version 1),
+ * as implemented by libraries such as Zod, Valibot and ArkType.
+ * @template Input - The type of the values the schema accepts.
+ * @template Output - The type of the values the schema produces.
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaResult<Output>
+      | Promise<StandardSchemaResult<Output>>;
+    readonly types?:
+      | { readonly input: Input; readonly output: Output }
+      | undefined;
+  };
+}
+
+/**
+ * A runtime check for a required dependency: a type guard or a Standard Schema.
+ */
+type Validator =
+  | ((value: unknown) => boolean)
+  | StandardSchemaV1;
+
+/**
+ * A required dependency placeholder that carries a validator.
+ */
+interface ValidatedRequired {
+  readonly [requiredSymbol]: Validator;
+}
+
 /**
  * A placeholder function to mark a dependency as required.
  *
+ * Optionally, pass a validator to check the provided value when the
+ * constructor is called: a type guard, or a Standard Schema such as a Zod or
+ * Valibot schema. The type of the dependency is then inferred from the
+ * validator. Values that fail validation make the constructor throw a
+ * `DependencyValidationError`. The value is passed to the implementation as it
+ * was provided, so schemas that transform values are not applied.
+ *
  * @template T - The type of the dependency that is required.
+ * @param validator - An optional type guard or Standard Schema that checks the provided value.
  * @returns A placeholder value that represents a required dependency.
  * @example
  * ```ts
  * const constructor = defineFn({
  *   // `db` is a required dependency of type `Database`.
  *   db: required<Database>(),
+ *   // `port` is a required number, checked when the constructor is called.
+ *   port: required((value): value is number => typeof value === "number"),
  *   // `logger` has a default value and is not strictly required.
  *   logger: console,
  * }, deps => { ... });
  * ```
  */
-export function required<T>(): Required<T> {
-  return requiredSymbol as Required<T>;
+export function required<T>(): Required<T>;
+export function required<T>(
+  validator: (value: unknown) => value is T,
+): Required<T>;
+export function required<T>(
+  validator: StandardSchemaV1<T, unknown>,
+): Required<T>;
+export function required(validator?: Validator): Required<unknown> {
+  if (!validator) {
+    return requiredSymbol as Required<unknown>;
+  }
+  const marker: ValidatedRequired = { [requiredSymbol]: validator };
+  return marker as unknown as Required<unknown>;
+}
+
+/**
+ * A branded type representing a required dependency placeholder.
+ * @template T - The type of the required dependency.
+ * @internal
+ */
+type Required<T> = typeof requiredSymbol & {
+  _type: T;
+};
+
+/**
+ * @internal
+ * A unique symbol used to identify an optional dependency placeholder.
+ */
+export const optionalSymbol = Symbol("optional");
+
+/**
+ * A placeholder function to mark a dependency as optional: it may be
+ * provided, and is absent otherwise.
+ *
+ * The key is optional in the constructor's requirements, and the
+ * implementation receives it as `T | undefined`. A key that was not provided
+ * is missing from `deps`, so `"key" in deps` tells it apart from a key that
+ * was provided as `undefined`.
+ *
+ * @template T - The type of the optional dependency.
+ * @returns A placeholder value that represents an optional dependency.
+ * @example
+ * ```ts
+ * const constructor = defineFn({
+ *   // `metrics` may be provided, and is `undefined` otherwise.
+ *   metrics: optional<Metrics>(),
+ * }, ({ metrics }, order: Order) => {
+ *   metrics?.increment("orders");
+ * });
+ * ```
+ */
+export function optional<T>(): Optional<T> {
+  return optionalSymbol as Optional<T>;
+}
+
+/**
+ * A branded type representing an optional dependency placeholder.
+ * @template T - The type of the optional dependency.
+ * @internal
+ */
+type Optional<T> = typeof optionalSymbol & {
+  _type: T;
+};
+
+/**
+ * @internal
+ * A unique symbol used to identify a factory dependency.
+ */
+export const factorySymbol = Symbol("factory");
+
+/**
+ * A marker for a dependency whose value is computed on first use.
+ * @template T - The type of the value the factory produces.
+ * @template D - The dependencies the factory reads, or `never` if it reads none.
+ * @internal
+ */
+export interface Factory<T, D = never> {
+  readonly [factorySymbol]: (deps: D) => T;
+  /** How long a created value is reused. `undefined` means once per constructed function. */
+  readonly lifetime?: Lifetime;
+  /** Cleans up a created value when its owner is disposed. */
+  readonly dispose?: (value: never) => unknown;
+}
+
+/**
+ * Options for markers whose created values are owned, and disposed, by injecfn.
+ * @template T - The type of the value produced by the marker.
+ */
+export interface FactoryOptions<T> {
+  /**
+   * Cleans up the created value when its owner is disposed: the constructed
+   * function for `lazy()` and `factory()`, or the scope for `scoped()`.
+   * Values that implement `Symbol.dispose` or `Symbol.asyncDispose` are
+   * cleaned up even without this option.
+   */
+  dispose?: (value: Awaited<T>) => unknown;
+}
+
+/**
+ * How long a value created by a lifetime marker is reused.
+ *
+ * - `singleton`: Once for every function that uses the marker.
+ * - `scoped`: Once per scope created by `createScope`.
+ * - `transient`: Once per call of the constructed function.
+ */
+export type Lifetime = "singleton" | "scoped" | "transient";
+
+/**
+ * A factory whose value is created anew for each call or scope.
+ * @template T - The type of the value the factory produces.
+ * @template D - The dependencies the factory reads, or `never` if it reads none.
+ * @internal
+ */
+export interface PerCallFactory<T, D = never> extends Factory<T, D> {
+  readonly lifetime: "scoped" | "transient";
+}
+
+/**
+ * Marks a dependency whose value is computed by `create` on first access.
+ *
+ * The value is computed at most once per constructed function, so expensive
+ * defaults are never created when they are overridden or not used.
+ *
+ * @template T - The type of the value produced by `create`.
+ * @param create - A function that creates the dependency value.
+ * @param options - Optional settings such as how to dispose of the created value.
+ * @returns A marker that resolves to the value returned by `create`.
+ * @example
+ * ```ts
+ * const constructor = defineFn({
+ *   // The pool is only created if `db` is not overridden and is actually used.
+ *   db: lazy(() => new Pool(process.env.DATABASE_URL)),
+ * }, ({ db }) => { ... });
+ * ```
+ */
+export function lazy<T>(
+  create: () => T,
+  options: FactoryOptions<T> = {},
+): Factory<T> {
+  return { [factorySymbol]: create, dispose: options.dispose };
+}
+
+/**
+ * Marks a dependency whose value is computed from the other resolved dependencies on first access.
+ *
+ * Like `lazy`, the value is computed at most once per constructed function.
+ * Annotate the `deps` parameter with the dependencies the factory reads, which
+ * the definition is checked to provide.
+ *
+ * @template T - The type of the value produced by `create`.
+ * @template D - The dependencies the factory reads.
+ * @param create - A function that creates the dependency value from the other dependencies.
+ * @param options - Optional settings such as how to dispose of the created value.
+ * @returns A marker that resolves to the value returned by `create`.
+ * @example
+ * ```ts
+ * const constructor = defineFn({
+ *   db: required<Database>(),
+ *   users: factory((deps: { db: Database }) => new UserRepository(deps.db)),
+ * }, ({ users }, id: string) => users.find(id));
+ * ```
+ */
+export function factory<T, D extends Record<string, unknown>>(
+  create: (deps: D) => T,
+  options: FactoryOptions<T> = {},
+): Factory<T, D> {
+  return { [factorySymbol]: create, dispose: options.dispose };
+}
+
+/**
+ * Marks a dependency that is created once and shared by every function using the marker.
+ *
+ * Unlike `lazy` and `factory`, the value is shared across constructed functions
+ * and scopes. Assign the marker to a variable to share it between definitions.
+ *
+ * @template T - The type of the value produced by `create`.
+ * @template D - The dependencies the factory reads.
+ * @param create - A function that creates the dependency value from the other dependencies.
+ * @returns A marker that resolves to the value returned by `create`.
+ * @example
+ * ```ts
+ * const pool = singleton(() => new Pool(process.env.DATABASE_URL));
+ *
+ * const constructFindUser = defineFn({ db: pool }, ({ db }, id: string) => { ... });
+ * const constructSaveUser = defineFn({ db: pool }, ({ db }, user: User) => { ... });
+ * ```
+ */
+export function singleton<T, D extends Record<string, unknown>>(
+  create: (deps: D) => T,
+): Factory<T, D> {
+  return { [factorySymbol]: create, lifetime: "singleton" };
+}
+
+/**
+ * Marks a dependency that is created once per scope.
+ *
+ * Calls made inside `scope.run()` share one value per scope, while calls in
+ * other scopes get their own. Accessing the dependency outside of a scope
+ * throws a `MissingScopeError`.
+ *
+ * @template T - The type of the value produced by `create`.
+ * @template D - The dependencies the factory reads.
+ * @param create - A function that creates the dependency value from the other dependencies.
+ * @param options - Optional settings such as how to dispose of the created value when the scope is disposed.
+ * @returns A marker that resolves to the value created for the active scope.
+ * @example
+ * ```ts
+ * const constructSaveOrder = defineFn({
+ *   db: required<Database>(),
+ *   tx: scoped((deps: { db: Database }) => deps.db.beginTransaction()),
+ * }, ({ tx }, order: Order) => tx.insert("orders", order));
+ *
+ * createScope().run(() => saveOrder(order));
+ * ```
+ */
+export function scoped<T, D extends Record<string, unknown>>(
+  create: (deps: D) => T,
+  options: FactoryOptions<T> = {},
+): PerCallFactory<T, D> {
+  return {
+    [factorySymbol]: create,
+    lifetime: "scoped",
+    dispose: options.dispose,
+  };
+}
+
+/**
+ * Marks a dependency that is created anew for every call of the constructed function.
+ *
+ * @template T - The type of the value produced by `create`.
+ * @template D - The dependencies the factory reads.
+ * @param create - A function that creates the dependency value from the other dependencies.
+ * @returns A marker that resolves to the value created for the current call.
+ * @example
+ * ```ts
+ * const constructHandle = defineFn({
+ *   requestId: transient(() => crypto.randomUUID()),
+ * }, ({ requestId }, request: Request) => { ... });
+ * ```
+ */
+export function transient<T, D extends Record<string, unknown>>(
+  create: (deps: D) => T,
+): PerCallFactory<T, D> {
+  return { [factorySymbol]: create, lifetime: "transient" };
+}
+
+/**
+ * Options for a contribution to a `many()` dependency.
+ */
+export interface ContributionOptions {
+  /**
+   * Where the contribution is placed. Contributions with a lower order come
+   * first, and contributions with the same order keep the order in which they
+   * were provided. Defaults to `0`.
+   */
+  readonly order?: number;
+}
+
+/**
+ * A dependency assembled from contributions into an array. Created by `many`.
+ * @template T - The type of each contribution.
+ */
+export interface Many<T> extends Factory<readonly T[]> {
+  /**
+   * Contributes a value to the dependency.
+   * @param value - The value to add.
+   * @param options - Where to place the value.
+   * @returns A function that removes the contribution.
+   */
+  provide(value: T, options?: ContributionOptions): () => void;
+}
+
+/**
+ * A dependency assembled from contributions into a map by key. Created by
+ * `many` with the `keyed` option. A map keeps its keys in the order of the
+ * contributions, which a record cannot do for keys such as `"10"`.
+ * @template T - The type of each contribution.
+ */
+export interface KeyedMany<T> extends Factory<ReadonlyMap<string, T>> {
+  /**
+   * Contributes a value to the dependency under a key.
+   * @param key - The key of the value, which must not have been provided yet.
+   * @param value - The value to add.
+   * @param options - Where to place the value among the keys of the map.
+   * @returns A function that removes the contribution.
+   * @throws {TypeError} If a value was already provided under `key`.
+   */
+  provide(key: string, value: T, options?: ContributionOptions): () => void;
+}
+
+/**
+ * A value provided to a `many()` dependency.
+ */
+interface Contribution<T> {
+  readonly key: string | undefined;
+  readonly value: T;
+  readonly order: number;
+  /** The position of the contribution among all contributions, as a tiebreaker. */
+  readonly sequence: number;
+}
+
+let contributionSequence = 0;
+
+/**
+ * Marks a dependency whose value is assembled from contributions, e.g. the
+ * validators, event handlers or health checks provided by several modules.
+ *
+ * Each contribution is provided with `provide` and checked against `T`. The
+ * dependency resolves to an array of the contributions, or to a map of them
+ * by key with the `keyed` option, sorted by their `order` and then by the order
+ * in which they were provided. Contributions are collected when a constructed
+ * function first accesses the dependency. Like any other dependency, it can be
+ * overridden with a complete array or map.
+ *
+ * @template T - The type of each contribution.
+ * @param options - Whether the contributions are collected into a map by key.
+ * @returns A marker that collects the contributions provided to it.
+ * @example
+ * ```ts
+ * const healthChecks = many<HealthCheck>();
+ *
+ * // In the database module:
+ * healthChecks.provide(() => db.ping());
+ * // In the cache module:
+ * healthChecks.provide(() => redis.ping(), { order: 1 });
+ *
+ * const constructCheckHealth = defineFn(
+ *   { healthChecks },
+ *   ({ healthChecks }) => Promise.all(healthChecks.map((check) => check())),
+ * );
+ * ```
+ */
+export function many<T>(options: { readonly keyed: true }): KeyedMany<T>;
+export function many<T>(options?: { readonly keyed?: false }): Many<T>;
+export function many<T>(
+  options: { readonly keyed?: boolean } = {},
+): Many<T> | KeyedMany<T> {
+  const contributions: Contribution<T>[] = [];
+
+  const contribute = (
+    key: string | undefined,
+    value: T,
+    { order = 0 }: ContributionOptions = {},
+  ) => {
+    const contribution: Contribution<T> = {
+      key,
+      value,
+      order,
+      sequence: contributionSequence++,
+    };
+    contributions.push(contribution);
+    return () => {
+      const index = contributions.indexOf(contribution);
+      if (index !== -1) {
+        contributions.splice(index, 1);
+      }
+    };
+  };
+
+  const sorted = () =>
+    contributions.slice().sort((a, b) =>
+      a.order - b.order || a.sequence - b.sequence
+    );
+
+  if (!options.keyed) {
+    const list: Many<T> = {
+      [factorySymbol]: () => sorted().map(({ value }) => value),
+      provide: (value, options) => contribute(undefined, value, options),
+    };
+    return list;
+  }
+
+  const keyed: KeyedMany<T> = {
+    [factorySymbol]: () =>
+      new Map(sorted().map(({ key, value }): [string, T] => [key!, value])),
+    provide: (key, value, options) => {
+      if (contributions.some((contribution) => contribution.key === key)) {
+        throw new TypeError(`A value was already provided under "${key}"`);
+      }
+      return contribute(key, value, options);
+    },
+  };
+  return keyed;
+}
+
+/**
+ * A store for the results of a function defined with the `cache` option.
+ * A `Map` is a valid store, and so is the in-memory LRU created by `lruCache`.
+ */
+export interface CacheStore {
+  has(key: string): boolean;
+  get(key: string): unknown;
+  set(key: string, value: unknown): unknown;
+  delete(key: string): unknown;
+  clear(): void;
+}
+
+/**
+ * Options for `lruCache`.
+ */
+export interface LruCacheOptions {
+  /** The maximum number of entries. The least recently used entry is evicted first. Defaults to `1000`. */
+  readonly max?: number;
+  /** How long an entry is kept after it is set, in milliseconds. Defaults to no expiry. */
+  readonly ttl?: number;
+  /** The clock used for expiry, in milliseconds. Defaults to `Date.now`. */
+  readonly now?: () => number;
+}
+
+/**
+ * Marks a dependency that is an in-memory, least recently used cache store,
+ * created once per constructed function. Use it as the default of the store
+ * named by the `cache` option.
+ *
+ * @param options - The size of the cache and how long entries are kept.
+ * @returns A marker that resolves to a new, empty `CacheStore`.
+ * @example
+ * ```ts
+ * const constructFindUser = defineFn(
+ *   { db: required<Database>(), cache: lruCache({ max: 100, ttl: 60_000 }) },
+ *   ({ db }, id: string) => db.findUser(id),
+ *   { cache: { store: "cache" } },
+ * );
+ * ```
+ */
+export function lruCache(options: LruCacheOptions = {}): Factory<CacheStore> {
+  const { max = 1000, ttl = Infinity, now = Date.now } = options;
+
+  return lazy(() => {
+    // A `Map` iterates in insertion order, so re-inserting an entry on access
+    // keeps the least recently used one first.
+    const entries = new Map<
+      string,
+      { readonly value: unknown; readonly expires: number }
+    >();
+
+    const store: CacheStore = {
+      has: (key) => {
+        const entry = entries.get(key);
+        if (entry && entry.expires <= now()) {
+          entries.delete(key);
+          return false;
+        }
+        return entry !== undefined;
+      },
+      get: (key) => {
+        if (!store.has(key)) {
+          return undefined;
+        }
+        const entry = entries.get(key)!;
+        entries.delete(key);
+        entries.set(key, entry);
+        return entry.value;
+      },
+      set: (key, value) => {
+        entries.delete(key);
+        entries.set(key, { value, expires: now() + ttl });
+        if (entries.size > max) {
+          entries.delete(entries.keys().next().value!);
+        }
+      },
+      delete: (key) => entries.delete(key),
+      clear: () => entries.clear(),
+    };
+    return store;
+  });
+}
+
+/**
+ * A source of environment variables: a plain record such as `process.env`,
+ * or an object with a `get` method such as `Deno.env`.
+ */
+export type EnvSource =
+  | Readonly<Record<string, string | undefined>>
+  | { get(name: string): string | undefined };
+
+/**
+ * The source set with `setEnvSource`, if any.
+ */
+let envSource: EnvSource | undefined;
+
+/**
+ * Returns `process.env` where it exists, `Deno.env` otherwise, and an empty
+ * record on platforms without environment variables.
+ */
+function defaultEnvSource(): EnvSource {
+  const { process, Deno } = globalThis as {
+    process?: { env: Record<string, string | undefined> };
+    Deno?: { env: { get(name: string): string | undefined } };
+  };
+  return process?.env ?? Deno?.env ?? {};
+}
+
+function readEnv(name: string): string | undefined {
+  const source = envSource ?? defaultEnvSource();
+  return typeof source.get === "function"
+    ? (source as { get(name: string): string | undefined }).get(name)
+    : (source as Readonly<Record<string, string | undefined>>)[name];
+}
+
+/**
+ * Sets the source that `env()` markers read from, e.g. a plain record in tests.
+ *
+ * @param source - The source to read environment variables from.
+ * @returns A function that restores the previous source.
+ * @example
+ * ```ts
+ * const restore = setEnvSource({ API_TIMEOUT: "100" });
+ * try {
+ *   const fetchUser = constructFetchUser();
+ * } finally {
+ *   restore();
+ * }
+ * ```
+ */
+export function setEnvSource(source: EnvSource): () => void {
+  const previous = envSource;
+  envSource = source;
+  return () => {
+    envSource = previous;
+  };
+}
+
+/**
+ * A unique symbol under which an `env()` marker exposes the name of its variable.
+ */
+const envSymbol = Symbol("env");
+
+/**
+ * A marker for a dependency read from an environment variable.
+ * @template T - The type of the parsed value.
+ * @internal
+ */
+export interface EnvFactory<T> extends Factory<T> {
+  readonly [envSymbol]: string;
+}
+
+/**
+ * Marks a dependency that is read from an environment variable.
+ *
+ * Unlike other markers, the value is read when the constructor is called, so
+ * that every missing or invalid setting is reported together by a
+ * `DependencyValidationError`. A variable that is unset or empty is missing,
+ * and falls back to `fallback` if one is given. The variable is read from
+ * `process.env` or `Deno.env`, or from the source set with `setEnvSource`.
+ *
+ * @template T - The type of the parsed value.
+ * @template F - The type of the fallback.
+ * @param name - The name of the environment variable.
+ * @param parse - A function that converts the raw value, and throws if it is invalid. Defaults to keeping the string.
+ * @param fallback - The value to use if the variable is missing.
+ * @returns A marker that resolves to the parsed value, or the fallback.
+ * @example
+ * ```ts
+ * const constructFetchUser = defineFn({
+ *   baseUrl: env("API_URL"),
+ *   timeout: env("API_TIMEOUT", parseInteger, 5000),
+ * }, ({ baseUrl, timeout }, id: string) => { ... });
+ * ```
+ */
+export function env(name: string): EnvFactory<string>;
+export function env<T>(
+  name: string,
+  parse: (value: string) => T,
+): EnvFactory<T>;
+export function env<T, F = T>(
+  name: string,
+  parse: (value: string) => T,
+  fallback: F,
+): EnvFactory<T | F>;
+export function env(
+  name: string,
+  parse: (value: string) => unknown = String,
+  ...fallback: unknown[]
+): EnvFactory<unknown> {
+  return {
+    [factorySymbol]: () => {
+      const value = readEnv(name);
+      if (value === undefined || value === "") {
+        if (fallback.length > 0) {
+          return fallback[0];
+        }
+        throw new Error(`Missing environment variable "${name}"`);
+      }
+      try {
+        return parse(value);
+      } catch (error) {
+        throw new Error(
+          `Invalid environment variable "${name}": ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    },
+    [envSymbol]: name,
+  };
+}
+
+/**
+ * @internal
+ * A unique symbol under which a `nested()` marker exposes the definition of its constructor.
+ */
+export const nestedSymbol = Symbol("nested");
+
+/**
+ * A marker for a dependency built by another constructor.
+ * @template T - The dependency definition object of the nested constructor.
+ * @template Fn - The type of the value the marker resolves to.
+ * @internal
+ */
+export interface Nested<T extends Record<string, unknown>, Fn>
+  extends Factory<Fn> {
+  readonly [nestedSymbol]: FnDefinition<T>;
+}
+
+/**
+ * Marks a dependency that is built by another constructor from `defineFn` or `defineAsyncFn`.
+ *
+ * The outer constructor builds the nested function once per constructed
+ * function, the first time it is used. The `required<T>()` dependencies of the
+ * nested constructor are hoisted into the outer constructor's requirements,
+ * unless the outer definition has a dependency with the same key, which is
+ * then passed on instead. Callers can still override the nested function as a
+ * whole, and the keys hoisted only for it are then no longer required.
+ *
+ * A key that the nested constructor requires with a type the outer definition,
+ * or another nested constructor, cannot satisfy is a compile error.
+ *
+ * @template T - The dependency definition object of the nested constructor.
+ * @template Fn - The type of the function the nested constructor builds.
+ * @param constructor - The constructor that builds the dependency.
+ * @returns A marker that resolves to the function built by `constructor`, or a promise of it for async constructors.
+ * @example
+ * ```ts
+ * const constructFindUser = defineFn(
+ *   { db: required<Database>() },
+ *   ({ db }, id: string) => db.findUser(id),
+ * );
+ *
+ * const constructGreetUser = defineFn(
+ *   { findUser: nested(constructFindUser) },
+ *   ({ findUser }, id: string) => `Hello, ${findUser(id)?.name}`,
+ * );
+ *
+ * const greetUser = constructGreetUser({ db }); // `db` is hoisted.
+ * ```
+ */
+export function nested<
+  T extends Record<string, unknown>,
+  Fn,
+>(constructor: AsyncFnConstructor<T, Fn>): Nested<T, Promise<Fn>>;
+export function nested<
+  T extends Record<string, unknown>,
+  Fn,
+>(constructor: FnConstructor<T, Fn>): Nested<T, Fn>;
+export function nested(
+  constructor:
+    & { readonly [definitionSymbol]: FnDefinition<Record<string, unknown>> }
+    & ((requirements: Record<string, unknown>) => unknown),
+): Nested<Record<string, unknown>, unknown> {
+  const definition = constructor[definitionSymbol];
+  const { dependencies } = definition;
+
+  return {
+    [factorySymbol]: (deps: Record<string, unknown>) => {
+      const requirements: Record<string, unknown> = {};
+      for (const key of Object.keys(dependencies)) {
+        if (isRequired(dependencies[key])) {
+          requirements[key] = deps[key];
+        }
+      }
+      return constructor(requirements);
+    },
+    [nestedSymbol]: definition,
+  };
+}
+
+/**
+ * Resolves a dependency definition value to the type the implementation receives.
+ * @template V - The value in the dependency definition object.
+ * @internal
+ */
+type Resolve<V> = V extends Required<infer U> ? U
+  : V extends Optional<infer U> ? U | undefined
+  : V extends Factory<infer U> ? U
+  : V;
+
+/**
+ * A utility type that resolves the final dependency types,
+ * replacing `Required<T>` placeholders and `Factory<T>` markers with their actual type `T`,
+ * and `Optional<T>` placeholders with `T | undefined`.
+ * @template T - The dependency definition object.
+ * @internal
+ */
+export type Dependencies<T extends Record<string, unknown>> = {
+  readonly [K in keyof T]: Resolve<T[K]>;
+};
+
+/**
+ * A utility type that extracts only the required dependencies from a definition.
+ * It produces an object type where required dependencies are mandatory,
+ * and dependencies with default values are optional (allowing overrides).
+ * @template T - The dependency definition object.
+ * @internal
+ */
+export type Requirements<T extends Record<string, unknown>> =
+  & {
+    // Extracts keys for properties typed as `Required<T>` and makes them non-optional.
+    [
+      K in keyof T as T[K] extends HoistedRequired<unknown, PropertyKey> ? never
+        : T[K] extends Required<unknown> ? K
+        : never
+    ]: T[K] extends Required<infer U> ? U : never;
+  }
+  & {
+    // Extracts keys for properties that are not `Required<T>` and makes them optional.
+    [K in keyof T as T[K] extends Required<unknown> ? never : K]?: Resolve<
+      T[K]
+    >;
+  }
+  & HoistedRequirements<T>;
+
+/**
+ * The requirements for the keys hoisted from nested constructors. Each one is
+ * required unless every nested constructor that requires it is provided.
+ * @template T - The dependency definition object.
+ * @internal
+ */
+type HoistedRequirements<T extends Record<string, unknown>> = {
+  [K in keyof T]: T[K] extends HoistedRequired<infer U, infer N> ? (
+      value:
+        | { [P in K]: U }
+        | (
+          & { [P in K]?: U }
+          & {
+            [
+              P in N & keyof T as T[P] extends
+                Nested<Record<string, unknown>, unknown> ? P
+                : never
+            ]: Resolve<T[P]>;
+          }
+        ),
+    ) => void
+    : never;
+}[keyof T] extends (value: infer I) => void ? I : unknown;
+
+/**
+ * A utility type that resolves the final dependency types of `defineAsyncFn`,
+ * additionally unwrapping promises produced by defaults and factories.
+ * @template T - The dependency definition object.
+ * @internal
+ */
+export type AsyncDependencies<T extends Record<string, unknown>> = {
+  readonly [
+    // Per-call factories are created after construction, so they are not awaited.
+    K in keyof T
+  ]: T[K] extends PerCallFactory<infer U> ? U
+    : Awaited<Resolve<T[K]>>;
+};
+
+/**
+ * The dependencies that the factories of `defineAsyncFn` receive: plain values
+ * are awaited before factories run, while other factories are passed as they
+ * returned.
+ * @template T - The dependency definition object.
+ * @internal
+ */
+type AsyncFactoryDependencies<T extends Record<string, unknown>> = {
+  readonly [K in keyof T]: T[K] extends Factory<unknown, never> ? Resolve<T[K]>
+    : Awaited<Resolve<T[K]>>;
+};
+
+/**
+ * A utility type like `Requirements<T>` for `defineAsyncFn`,
+ * where every dependency may also be given as a promise or an async factory.
+ * @template T - The dependency definition object.
+ * @internal
+ */
+export type AsyncRequirements<T extends Record<string, unknown>> = AsyncValues<
+  Requirements<T>
+>;
+
+/**
+ * Allows every value of the requirements `R` to be given as a promise or an
+ * async factory, keeping each alternative of a union apart.
+ * @internal
+ */
+type AsyncValues<R> = R extends unknown ? {
+    [K in keyof R]:
+      | R[K]
+      | PromiseLike<R[K]>
+      | Factory<R[K] | PromiseLike<R[K]>>;
+  }
+  : never;
+
+/**
+ * The `required<T>()` keys of the constructors nested with `nested()` that
+ * the definition does not have itself.
+ * @template T - The dependency definition object.
+ * @internal
+ */
+type HoistedKeys<T extends Record<string, unknown>> = Exclude<
+  {
+    [K in keyof T]: T[K] extends Nested<infer D, unknown> ? RequiredKeys<D>
+      : never;
+  }[keyof T],
+  keyof T
+>;
+
+/**
+ * The type a hoisted key must have to satisfy every nested constructor that requires it.
+ * @template T - The dependency definition object.
+ * @template J - The hoisted key.
+ * @internal
+ */
+type HoistedType<T extends Record<string, unknown>, J> = {
+  [K in keyof T]: T[K] extends Nested<infer D, unknown>
+    ? J extends RequiredKeys<D> ? (value: Resolve<D[J]>) => void : never
+    : never;
+}[keyof T] extends (value: infer U) => void ? U : never;
+
+/**
+ * The keys of the `nested()` markers whose constructors require the hoisted key `J`.
+ * @template T - The dependency definition object.
+ * @template J - The hoisted key.
+ * @internal
+ */
+type NestingKeys<T extends Record<string, unknown>, J> = {
+  [K in keyof T]: T[K] extends Nested<infer D, unknown>
+    ? J extends RequiredKeys<D> ? K : never
+    : never;
+}[keyof T];
+
+/**
+ * A `required<T>()` placeholder hoisted from the nested constructors under the
+ * keys `N`. It is no longer required once all of them are provided.
+ * @template T - The type of the required dependency.
+ * @template N - The keys of the nested constructors.
+ * @internal
+ */
+type HoistedRequired<T, N extends PropertyKey> = Required<T> & {
+  _nested: N;
+};
+
+/**
+ * A dependency definition object with the `required<T>()` keys of its nested
+ * constructors added as required keys. A hoisted key is no longer required
+ * once the nested constructors that require it are overridden.
+ * @template T - The dependency definition object.
+ */
+export type Hoisted<T extends Record<string, unknown>> =
+  [HoistedKeys<T>] extends [never] ? T
+    : {
+      [K in keyof T | HoistedKeys<T>]: K extends keyof T ? T[K]
+        : HoistedRequired<HoistedType<T, K>, NestingKeys<T, K>>;
+    };
+
+/**
+ * The keys that a nested constructor with the definition `D` requires, but
+ * that the outer definition `T`, or another nested constructor, cannot satisfy.
+ * @internal
+ */
+type NestingConflicts<
+  T extends Record<string, unknown>,
+  D extends Record<string, unknown>,
+> = {
+  [J in RequiredKeys<D>]: J extends keyof T
+    ? [Resolve<T[J]>] extends [Resolve<D[J]>] ? never : J
+    : [HoistedType<T, J>] extends [never] ? J
+    : never;
+}[RequiredKeys<D>];
+
+/**
+ * The keys that a factory reads as `D`, but that the resolved dependencies `R`
+ * do not provide, or provide with another type.
+ * @internal
+ */
+type FactoryConflicts<R, D> = {
+  [J in keyof D]-?: J extends keyof R ? [R[J]] extends [D[J]] ? never : J
+    : undefined extends D[J] ? never
+    : J;
+}[keyof D];
+
+/**
+ * Maps each `nested()` marker whose requirements conflict with the rest of the
+ * definition, and each factory that reads dependencies the definition does not
+ * provide, to an error message, so that the conflict is reported at the key.
+ * @template T - The dependency definition object.
+ * @template R - The dependencies as the factories receive them.
+ * @internal
+ */
+type CheckedDefinition<
+  T extends Record<string, unknown>,
+  R = Dependencies<T>,
+> = {
+  [K in keyof T]: T[K] extends Nested<infer D, unknown>
+    ? [NestingConflicts<T, D>] extends [never] ? T[K]
+    : `Conflicting nested dependency "${NestingConflicts<T, D> & string}"`
+    : T[K] extends Factory<unknown, infer D>
+      ? [FactoryConflicts<R, D>] extends [never] ? T[K]
+      : `Conflicting factory dependency "${FactoryConflicts<R, D> & string}"`
+    : T[K];
+};
+
+/**
+ * The keys hoisted by `hoistRequirements`, per hoisted definition, with the
+ * keys of the `nested()` markers that require them.
+ */
+const hoistedKeys = new WeakMap<
+  Record<string, unknown>,
+  Map<string, string[]>
+>();
+
+/**
+ * Adds the `required<T>()` keys of nested constructors to a dependency
+ * definition object, unless it has a dependency with the same key.
+ */
+function hoistRequirements<T extends Record<string, unknown>>(
+  dependencies: T,
+): Record<string, unknown> {
+  const hoisted: Record<string, unknown> = { ...dependencies };
+  const nestedKeys = new Map<string, string[]>();
+  for (const name of Object.keys(dependencies)) {
+    const value = dependencies[name];
+    if (!isNested(value)) {
+      continue;
+    }
+    const inner = value[nestedSymbol].dependencies;
+    for (const key of Object.keys(inner)) {
+      if (
+        isRequired(inner[key]) &&
+        !Object.prototype.hasOwnProperty.call(dependencies, key)
+      ) {
+        getOrCreate(nestedKeys, key, () => {
+          hoisted[key] = inner[key];
+          return [];
+        }).push(name);
+      }
+    }
+  }
+  if (nestedKeys.size > 0) {
+    hoistedKeys.set(hoisted, nestedKeys);
+  }
+  return hoisted;
+}
+
+/**
+ * @internal
+ * A unique symbol under which a constructor exposes its `FnDefinition`.
+ */
+export const definitionSymbol = Symbol("definition");
+
+/**
+ * The metadata a constructor keeps about the function it was defined for.
+ * @template T - The dependency definition object.
+ * @internal
+ */
+export interface FnDefinition<T extends Record<string, unknown>> {
+  /** The dependency definition object passed to `defineFn`. */
+  readonly dependencies: T;
+  /** The display name of the function being defined. */
+  readonly name: string;
+  /** A human-readable description of the function being defined. */
+  readonly description: string | undefined;
+  /** Whether the definition was created by `defineAsyncFn`. */
+  readonly async: boolean;
+  /**
+   * The dependency definition object that the constructed functions are bound
+   * to, which identifies them to `addOverrides`. It is kept by `partial`, and
+   * is `undefined` for `defineClass`, whose instances receive their
+   * dependencies only once.
+   */
+  readonly overrideTarget: Record<string, unknown> | undefined;
+}
+
+/**
+ * The keys of a dependency definition object that are marked with `required<T>()`.
+ * @template T - The dependency definition object.
+ */
+export type RequiredKeys<T extends Record<string, unknown>> = {
+  [K in keyof T]: T[K] extends Required<unknown> ? K : never;
+}[keyof T];
+
+/**
+ * The keys of a dependency definition object that are marked with `optional<T>()`.
+ * @template T - The dependency definition object.
+ */
+export type OptionalKeys<T extends Record<string, unknown>> = {
+  [K in keyof T]: T[K] extends Optional<unknown> ? K : never;
+}[keyof T];
+
+/**
+ * Describes a single dependency of a definition.
+ *
+ * - `required`: Marked with `required<T>()` and must be provided.
+ * - `optional`: Marked with `optional<T>()` and may be provided.
+ * - `value`: Has a plain default `value`.
+ * - `factory`: Has a default created by a marker such as `lazy()` or `scoped()`.
+ */
+export type DependencyDescription =
+  | { readonly kind: "required" }
+  | { readonly kind: "optional" }
+  | { readonly kind: "value"; readonly value: unknown }
+  | { readonly kind: "factory"; readonly lifetime: Lifetime | undefined };
+
+/**
+ * The metadata of a constructor, as returned by `describeFn`.
+ * @template T - The dependency definition object.
+ */
+export interface FnDescription<T extends Record<string, unknown>> {
+  /** The display name of the function. */
+  readonly name: string;
+  /** The description given with the `description` option, if any. */
+  readonly description: string | undefined;
+  /** Whether the constructor was created by `defineAsyncFn`. */
+  readonly async: boolean;
+  /** The keys of the dependencies that must be provided. */
+  readonly required: readonly (RequiredKeys<T> & string)[];
+  /** The keys of the dependencies that may be provided, without a default. */
+  readonly optional: readonly (OptionalKeys<T> & string)[];
+  /** The keys of the dependencies that have a default. */
+  readonly defaults: readonly (
+    & Exclude<keyof T, RequiredKeys<T> | OptionalKeys<T>>
+    & string
+  )[];
+  /** A description of every dependency, by key. */
+  readonly dependencies: { readonly [K in keyof T]: DependencyDescription };
+}
+
+/**
+ * The type of a function constructed by `defineFn` or `defineAsyncFn`. It only
+ * declares a `this` parameter if the implementation does.
+ *
+ * @template This - The `this` type declared by the implementation, or `unknown`.
+ * @template Args - The arguments of the function.
+ * @template Return - The return type of the function.
+ */
+export type BoundFn<This, Args extends unknown[], Return> = unknown extends This
+  ? (...args: Args) => Return
+  : (this: This, ...args: Args) => Return;
+
+/**
+ * Represents the constructor function returned by `defineFn`.
+ * It is a callable function that may or may not require an argument,
+ * depending on whether there are required dependencies.
+ *
+ * @template T - The dependency definition object.
+ * @template Fn - The type of the final constructed function, or of the object of methods built by `defineMethods` and `defineClass`.
+ */
+export interface FnConstructor<
+  T extends Record<string, unknown>,
+  Fn,
+> {
+  /**
+   * Constructs the final function by providing dependencies.
+   * @param requirements - An object containing the required dependencies and any optional overrides.
+   *                       This argument is optional if no dependencies are marked as `required`.
+   */
+  (
+    ...args: Record<never, never> extends Requirements<T>
+      ? [requirements?: Requirements<T>]
+      : [requirements: Requirements<T>]
+  ): Fn;
+
+  /**
+   * @internal
+   * The definition this constructor was created from.
+   */
+  readonly [definitionSymbol]: FnDefinition<T>;
+}
+
+/**
+ * Represents the constructor function returned by `defineAsyncFn`.
+ * Like `FnConstructor`, but dependencies may be given as promises or async
+ * factories, and the constructed function is returned as a promise.
+ *
+ * @template T - The dependency definition object.
+ * @template Fn - The type of the final constructed function.
+ */
+export interface AsyncFnConstructor<
+  T extends Record<string, unknown>,
+  Fn,
+> {
+  /**
+   * Constructs the final function by providing dependencies and resolving all of them in parallel.
+   * @param requirements - An object containing the required dependencies and any optional overrides.
+   *                       This argument is optional if no dependencies are marked as `required`.
+   */
+  (
+    ...args: Record<never, never> extends AsyncRequirements<T>
+      ? [requirements?: AsyncRequirements<T>]
+      : [requirements: AsyncRequirements<T>]
+  ): Promise<Fn>;
+
+  /**
+   * @internal
+   * The definition this constructor was created from.
+   */
+  readonly [definitionSymbol]: FnDefinition<T>;
+}
+
+/**
+ * A single call of a constructed function, as seen by an interceptor.
+ * @template Args - The arguments of the constructed function.
+ */
+export interface Invocation<Args extends unknown[] = unknown[]> {
+  /** The display name of the called function. */
+  readonly name: string;
+  /** The arguments the function was called with. */
+  readonly args: Args;
+  /**
+   * The resolved dependencies the implementation receives. Reading a
+   * dependency created by a factory creates it, as it would in the implementation.
+   */
+  readonly deps: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Wraps calls of constructed functions, e.g. for logging, timing or retries.
+ *
+ * An interceptor receives the invocation and a `next` function that calls the
+ * next interceptor, or the implementation, with the given arguments. It
+ * returns what the call should return. For async implementations, `next`
+ * returns the promise, which the interceptor can await or chain.
+ *
+ * @template Args - The arguments of the constructed function.
+ * @template Return - The return type of the constructed function.
+ * @example
+ * ```ts
+ * const logCalls: Interceptor = (invocation, next) => {
+ *   console.log(`${invocation.name} called with`, invocation.args);
+ *   return next(...invocation.args);
+ * };
+ * ```
+ */
+export type Interceptor<Args extends unknown[] = unknown[], Return = unknown> =
+  (
+    invocation: Invocation<Args>,
+    next: (...args: Args) => Return,
+  ) => Return;
+
+/**
+ * The keys of the dependencies that resolve to a `CacheStore`.
+ * @template Deps - The resolved dependencies.
+ */
+export type CacheStoreKey<Deps> =
+  & {
+    [K in keyof Deps]-?: Deps[K] extends CacheStore ? K : never;
+  }[keyof Deps]
+  & string;
+
+/**
+ * How a function defined with the `cache` option caches its results.
+ * @template Args - The arguments of the function being defined.
+ * @template Deps - The resolved dependencies of the function being defined.
+ */
+export interface CacheOptions<
+  Args extends unknown[] = unknown[],
+  Deps = Record<string, CacheStore>,
+> {
+  /**
+   * The key of the dependency that holds the `CacheStore`, so that the store
+   * can be overridden like any other dependency. Use `lruCache()` as its default.
+   */
+  readonly store: CacheStoreKey<Deps>;
+  /**
+   * Derives the cache key from the arguments of a call.
+   * Defaults to the arguments serialized with `JSON.stringify`, which throws
+   * a `TypeError` for functions, symbols and cyclic arguments.
+   */
+  readonly key?: (...args: Args) => string;
+}
+
+/**
+ * Options that customize how `defineFn` builds its constructor.
+ * @template Args - The arguments of the function being defined.
+ * @template Return - The return type of the function being defined.
+ * @template Deps - The resolved dependencies of the function being defined.
+ */
+export interface DefineFnOptions<
+  Args extends unknown[] = unknown[],
+  Return = unknown,
+  Deps = Record<string, CacheStore>,
+> {
+  /**
+   * A human-readable name for the function being defined.
+   * Used in error messages and as the `name` of the constructed function.
+   * Defaults to the name of the implementation function.
+   */
+  name?: string;
+  /**
+   * A human-readable description of the function being defined, for tooling.
+   * Available through `describeFn`.
+   */
+  description?: string;
+  /**
+   * Whether the constructor checks that every `required<T>()` dependency was provided.
+   * Defaults to `true`. Set it to `false` to skip the check on hot paths where the
+   * types are already trusted.
+   */
+  validate?: boolean;
+  /**
+   * Interceptors that wrap every call of the constructed function, after any
+   * global interceptors added with `addInterceptor`. The first one is the outermost.
+   */
+  interceptors?: readonly Interceptor<Args, Return>[];
+  /**
+   * Whether the `this` the constructed function is called with is passed on to
+   * the implementation, e.g. when it is assigned as a method. Defaults to
+   * `false`, in which case the implementation is called with `this` undefined.
+   */
+  forwardThis?: boolean;
+  /**
+   * Caches the results of the constructed function by its arguments. Promises
+   * are cached as soon as they are returned, so that concurrent calls share
+   * them, and are evicted if they reject. Use `invalidate` and `invalidateAll`
+   * to evict results explicitly.
+   */
+  cache?: CacheOptions<Args, Deps>;
+}
+
+/**
+ * An error thrown by a constructor when one or more `required<T>()` dependencies
+ * were not provided at construction time.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   constructProcessOrder({} as any);
+ * } catch (error) {
+ *   if (error instanceof MissingDependencyError) {
+ *     console.error(error.keys); // ["paymentProcessor"]
+ *   }
+ * }
+ * ```
+ */
+export class MissingDependencyError extends Error {
+  override name = "MissingDependencyError";
+  /** The name of the function whose constructor was called. */
+  readonly fnName: string;
+  /** The keys of every required dependency that was not provided. */
+  readonly keys: readonly string[];
+
+  constructor(fnName: string, keys: readonly string[]) {
+    super(
+      `Missing required dependencies for ${
+        fnName ? `"${fnName}"` : "anonymous function"
+      }: ${keys.join(", ")}`,
+    );
+    this.fnName = fnName;
+    this.keys = keys;
+  }
+}
+
+/**
+ * A single reason why a provided dependency failed validation.
+ */
+export interface DependencyIssue {
+  /** The key of the dependency that failed validation. */
+  readonly key: string;
+  /** Why the dependency failed validation. */
+  readonly message: string;
+}
+
+/**
+ * An error thrown by a constructor when provided dependencies fail the
+ * validators given to `required()`. Every failing key is reported at once.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   constructServer({ port: "80", host: 42 } as any);
+ * } catch (error) {
+ *   if (error instanceof DependencyValidationError) {
+ *     console.error(error.issues); // [{ key: "port", message: "..." }, { key: "host", message: "..." }]
+ *   }
+ * }
+ * ```
+ */
+export class DependencyValidationError extends Error {
+  override name = "DependencyValidationError";
+  /** The name of the function whose constructor was called. */
+  readonly fnName: string;
+  /** Every issue found, in the order of the dependency keys. */
+  readonly issues: readonly DependencyIssue[];
+
+  constructor(fnName: string, issues: readonly DependencyIssue[]) {
+    super(
+      `Invalid dependencies for ${
+        fnName ? `"${fnName}"` : "anonymous function"
+      }: ${issues.map(({ key, message }) => `${key} (${message})`).join(", ")}`,
+    );
+    this.fnName = fnName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * An error thrown when dependencies depend on each other in a cycle.
+ */
+export class CircularDependencyError extends Error {
+  override name = "CircularDependencyError";
+  /** The keys forming the cycle. The first and last entries are the same key. */
+  readonly path: readonly string[];
+
+  constructor(path: readonly string[]) {
+    super(`Circular dependency detected: ${path.join(" -> ")}`);
+    this.path = path;
+  }
+}
+
+/**
+ * An error thrown by a constructor from `defineAsyncFn` when a dependency
+ * could not be resolved. The original error is available as `cause`.
+ */
+export class DependencyResolutionError extends Error {
+  override name = "DependencyResolutionError";
+  /** The name of the function whose constructor was called. */
+  readonly fnName: string;
+  /** The key of the dependency that failed to resolve. */
+  readonly key: string;
+
+  constructor(fnName: string, key: string, cause: unknown) {
+    super(
+      `Failed to resolve dependency "${key}" for ${
+        fnName ? `"${fnName}"` : "anonymous function"
+      }: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+    this.fnName = fnName;
+    this.key = key;
+  }
+}
+
+/**
+ * An error thrown when a `scoped()` dependency is accessed outside of a scope.
+ */
+export class MissingScopeError extends Error {
+  override name = "MissingScopeError";
+  /** The name of the function that accessed the dependency. */
+  readonly fnName: string;
+  /** The key of the scoped dependency. */
+  readonly key: string;
+
+  constructor(fnName: string, key: string) {
+    super(
+      `Scoped dependency "${key}" of ${
+        fnName ? `"${fnName}"` : "anonymous function"
+      } was accessed outside of a scope`,
+    );
+    this.fnName = fnName;
+    this.key = key;
+  }
+}
+
+/**
+ * An error thrown when a constructed function, or a method of a group, is
+ * called after it was disposed of, as the values it depends on are gone.
+ */
+export class DisposedFunctionError extends Error {
+  override name = "DisposedFunctionError";
+  /** The name of the function that was called. */
+  readonly fnName: string;
+
+  constructor(fnName: string) {
+    super(
+      `${
+        fnName ? `"${fnName}"` : "Anonymous function"
+      } was called after it was disposed of`,
+    );
+    this.fnName = fnName;
+  }
+}
+
+/**
+ * A store for a value that follows the current call chain, including across
+ * `await` where `AsyncLocalStorage` is available.
+ * @internal
+ */
+export interface AmbientStorage<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, fn: () => R): R;
+}
+
+/**
+ * Creates an `AmbientStorage`, backed by `AsyncLocalStorage` on runtimes that
+ * provide it through `process.getBuiltinModule` (Node.js 20.16 and 22.3 or
+ * later, Deno, Bun) and by a synchronous stack elsewhere. `node:async_hooks`
+ * can't be imported statically without breaking other runtimes, so earlier
+ * versions of Node.js fall back to the stack.
+ * @internal
+ */
+export function createAmbientStorage<T>(): AmbientStorage<T> {
+  const { process } = globalThis as {
+    process?: { getBuiltinModule?: (id: string) => unknown };
+  };
+  const asyncHooks = process?.getBuiltinModule?.("node:async_hooks") as
+    | { AsyncLocalStorage?: new () => AmbientStorage<T> }
+    | undefined;
+  if (asyncHooks?.AsyncLocalStorage) {
+    return new asyncHooks.AsyncLocalStorage();
+  }
+
+  const stack: T[] = [];
+  return {
+    getStore: () => stack[stack.length - 1],
+    run(store, fn) {
+      stack.push(store);
+      try {
+        return fn();
+      } finally {
+        stack.pop();
+      }
+    },
+  };
+}
+
+/**
+ * A value created by a factory, together with how to dispose of it. A
+ * promise is replaced by its value once it settles, and `pending` is cleared.
+ */
+interface Resource {
+  value: unknown;
+  readonly dispose?: (value: never) => unknown;
+  pending: boolean;
+}
+
+/**
+ * The values created by factories on behalf of a constructed function or a
+ * scope. `resources` is kept in creation order so that it can be disposed of
+ * in reverse. `cleanups` holds the asynchronous cleanups started by a
+ * synchronous disposal, whose errors are reported by the next asynchronous one.
+ * `disposed` is set by the first disposal, after which the functions the
+ * owner belongs to refuse to be called.
+ * @template K - What the created values are cached by.
+ */
+interface Owner<K> {
+  readonly instances: Map<K, unknown>;
+  readonly resources: Resource[];
+  readonly cleanups: Promise<unknown>[];
+  disposed: boolean;
+}
+
+function createOwner<K>(): Owner<K> {
+  return { instances: new Map(), resources: [], cleanups: [], disposed: false };
+}
+
+/**
+ * Whether a value is a promise or another thenable.
+ * @internal
+ */
+export function isPromiseLike(
+  value: unknown,
+): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === "function";
+}
+
+/**
+ * Records a value created by a factory in `resources`. A promise is replaced
+ * by its value once it is fulfilled, and dropped if it is rejected, as nothing
+ * was created.
+ */
+function addResource(
+  resources: Resource[],
+  value: unknown,
+  dispose: ((value: never) => unknown) | undefined,
+): void {
+  const resource: Resource = { value, dispose, pending: isPromiseLike(value) };
+  resources.push(resource);
+  if (isPromiseLike(value)) {
+    value.then(
+      (resolved) => {
+        resource.value = resolved;
+        resource.pending = false;
+      },
+      () => {
+        const index = resources.indexOf(resource);
+        if (index !== -1) {
+          resources.splice(index, 1);
+        }
+      },
+    );
+  }
+}
+
+function disposeResource({ value, dispose }: Resource): unknown {
+  if (dispose) {
+    return dispose(value as never);
+  }
+  const disposable = value as Partial<Disposable & AsyncDisposable> | null;
+  const cleanup = disposable?.[Symbol.dispose] ??
+    disposable?.[Symbol.asyncDispose];
+  return cleanup?.call(disposable);
+}
+
+async function disposeResourceAsync(
+  { value, dispose }: Resource,
+): Promise<unknown> {
+  let resolved: unknown;
+  try {
+    resolved = await value;
+  } catch {
+    // The factory failed, so there is nothing to dispose of.
+    return;
+  }
+  if (dispose) {
+    return await dispose(resolved as never);
+  }
+  const disposable = resolved as Partial<Disposable & AsyncDisposable> | null;
+  const cleanup = disposable?.[Symbol.asyncDispose] ??
+    disposable?.[Symbol.dispose];
+  return await cleanup?.call(disposable);
+}
+
+/**
+ * Throws the errors collected while disposing, if any. A single error is
+ * rethrown as-is, several are combined into an `AggregateError`.
+ * @internal
+ */
+export function throwDisposalErrors(errors: unknown[]): void {
+  if (errors.length === 1) {
+    throw errors[0];
+  }
+  if (errors.length > 1) {
+    throw new AggregateError(errors, "Failed to dispose dependencies");
+  }
+}
+
+/**
+ * Disposes of every resource of `owner` in reverse creation order, forgets
+ * the created values and marks the owner as disposed of.
+ *
+ * Asynchronous cleanup is refused with a `TypeError`, as its errors would go
+ * unreported: values that are still being created are kept for
+ * `disposeOwnerAsync`, and cleanups that return a promise are tracked so that
+ * `disposeOwnerAsync` reports their errors.
+ */
+function disposeOwner(owner: Owner<unknown>): void {
+  owner.disposed = true;
+  const errors: unknown[] = [];
+  const kept: Resource[] = [];
+  let async = false;
+  for (const resource of owner.resources.splice(0).reverse()) {
+    if (resource.pending) {
+      kept.unshift(resource);
+      async = true;
+      continue;
+    }
+    try {
+      const result = disposeResource(resource);
+      if (isPromiseLike(result)) {
+        const cleanup = Promise.resolve(result);
+        // Rejections are reported by disposeOwnerAsync instead.
+        cleanup.catch(() => {});
+        owner.cleanups.push(cleanup);
+        async = true;
+      }
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  owner.resources.push(...kept);
+  owner.instances.clear();
+  if (async) {
+    errors.push(
+      new TypeError(
+        "Dependencies with asynchronous cleanup must be disposed of with Symbol.asyncDispose, e.g. with `await using`",
+      ),
+    );
+  }
+  throwDisposalErrors(errors);
+}
+
+/**
+ * Like `disposeOwner`, but waits for each asynchronous cleanup before starting
+ * the next, including those started by an earlier `disposeOwner`.
+ */
+async function disposeOwnerAsync(owner: Owner<unknown>): Promise<void> {
+  owner.disposed = true;
+  const errors: unknown[] = [];
+  for (const cleanup of owner.cleanups.splice(0)) {
+    try {
+      await cleanup;
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  for (const resource of owner.resources.splice(0).reverse()) {
+    try {
+      await disposeResourceAsync(resource);
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  owner.instances.clear();
+  throwDisposalErrors(errors);
+}
+
+/**
+ * Values created by `scoped()` markers, per marker, for the active scope.
+ */
+type ScopeOwner = Owner<Factory<unknown>>;
+
+const scopeStorage = createAmbientStorage<ScopeOwner>();
+
+/**
+ * Values created by `singleton()` markers, per marker.
+ */
+const singletonInstances = new WeakMap<Factory<unknown>, unknown>();
+
+/**
+ * A scope in which `scoped()` dependencies are shared. Created by `createScope`.
+ *
+ * Disposing of the scope, e.g. with `using`, disposes of the values its
+ * `scoped()` dependencies created, in reverse creation order.
+ */
+export interface Scope extends Disposable, AsyncDisposable {
+  /**
+   * Runs `fn` inside this scope. Constructed functions called from `fn`,
+   * including after `await` where `AsyncLocalStorage` is available, use this
+   * scope's instances of their `scoped()` dependencies.
+   * @param fn - The function to run inside the scope.
+   * @returns The return value of `fn`.
+   */
+  run<R>(fn: () => R): R;
+}
+
+/**
+ * Creates a new scope for `scoped()` dependencies, typically one per request.
+ *
+ * @returns A new, empty scope.
+ * @example
+ * ```ts
+ * app.post("/orders", (request) => {
+ *   return createScope().run(() => saveOrder(request.body));
+ * });
+ * ```
+ */
+export function createScope(): Scope {
+  const owner: ScopeOwner = createOwner();
+  return {
+    run: (fn) => scopeStorage.run(owner, fn),
+    [Symbol.dispose]: () => disposeOwner(owner),
+    [Symbol.asyncDispose]: () => disposeOwnerAsync(owner),
+  };
+}
+
+/**
+ * Interceptors added with `addInterceptor`, outermost first.
+ */
+const globalInterceptors: Interceptor[] = [];
+
+/**
+ * Adds an interceptor that wraps every function constructed from now on,
+ * by any constructor. Global interceptors run outside the interceptors given
+ * to `defineFn`, in the order they were added.
+ *
+ * @param interceptor - The interceptor to add.
+ * @returns A function that removes the interceptor. Functions constructed
+ *          while it was added keep using it.
+ * @example
+ * ```ts
+ * const removeTiming = addInterceptor((invocation, next) => {
+ *   const start = performance.now();
+ *   try {
+ *     return next(...invocation.args);
+ *   } finally {
+ *     console.log(`${invocation.name} took ${performance.now() - start}ms`);
+ *   }
+ * });
+ * ```
+ */
+export function addInterceptor(interceptor: Interceptor): () => void {
+  globalInterceptors.push(interceptor);
+  return () => {
+    const index = globalInterceptors.indexOf(interceptor);
+    if (index !== -1) {
+      globalInterceptors.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Dependencies replaced with `addOverrides`, together with the values their
+ * factories created while the replacement was the latest one, per owner of
+ * the constructed function.
+ */
+interface OverrideEntry {
+  readonly values: Record<string, unknown>;
+  readonly owners: Map<Owner<string>, Owner<string>>;
+}
+
+/**
+ * Overrides added with `addOverrides`, per dependency definition object,
+ * in the order they were added.
+ */
+const dependencyOverrides = new Map<Record<string, unknown>, OverrideEntry[]>();
+
+/**
+ * @internal
+ * Replaces dependencies of every function constructed from the dependency
+ * definition object `definition`, including functions constructed before, on
+ * every call until the returned object is disposed of. Later overrides take
+ * precedence over earlier ones.
+ *
+ * Factories are created anew while the override is active, so that values
+ * built from the replaced dependencies do not outlive it. Removing the
+ * override disposes of them.
+ *
+ * @param definition - The `overrideTarget` of the constructor's definition.
+ * @param values - The dependencies to replace, by key.
+ * @returns An object that removes the override when it is disposed of, and
+ *   waits for asynchronous cleanup with `Symbol.asyncDispose`.
+ */
+export function addOverrides(
+  definition: Record<string, unknown>,
+  values: Record<string, unknown>,
+): Disposable & AsyncDisposable {
+  const entry: OverrideEntry = { values, owners: new Map() };
+  const entries = getOrCreate(dependencyOverrides, definition, () => []);
+  entries.push(entry);
+
+  const remove = () => {
+    const index = entries.indexOf(entry);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+    if (entries.length === 0) {
+      dependencyOverrides.delete(definition);
+    }
+  };
+
+  // The owners are kept after disposal, so that values left to asynchronous
+  // disposal can still be disposed of.
+  return {
+    [Symbol.dispose]() {
+      remove();
+      const errors: unknown[] = [];
+      for (const owner of entry.owners.values()) {
+        try {
+          disposeOwner(owner);
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+      throwDisposalErrors(errors);
+    },
+    async [Symbol.asyncDispose]() {
+      remove();
+      const errors: unknown[] = [];
+      for (const owner of entry.owners.values()) {
+        try {
+          await disposeOwnerAsync(owner);
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+      throwDisposalErrors(errors);
+    },
+  };
+}
+
+/**
+ * Throws a `MissingDependencyError` if any `required<T>()` placeholder
+ * survived merging the definition with the provided requirements.
+ */
+function assertProvided(name: string, merged: Record<string, unknown>): void {
+  // Type-level checks can be bypassed by JS callers or `as any` casts,
+  // so any placeholder that survived the merge is reported here instead of
+  // failing later inside the implementation.
+  const missing = Object.keys(merged).filter((key) => isRequired(merged[key]));
+  if (missing.length > 0) {
+    throw new MissingDependencyError(name, missing);
+  }
+}
+
+function isValidatedRequired(value: unknown): value is ValidatedRequired {
+  return typeof value === "object" && value !== null && requiredSymbol in value;
+}
+
+/**
+ * Whether a value is a `required()` placeholder, with or without a validator.
+ * @internal
+ */
+export function isRequired(value: unknown): boolean {
+  return value === requiredSymbol || isValidatedRequired(value);
+}
+
+function isUnchecked(value: unknown): boolean {
+  return (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    (value as { [uncheckedSymbol]?: unknown })[uncheckedSymbol] === true;
+}
+
+function isStandardSchema(validator: Validator): validator is StandardSchemaV1 {
+  return "~standard" in validator;
+}
+
+function formatIssue({ message, path }: StandardSchemaIssue): string {
+  const keys = (path ?? []).map((segment) =>
+    String(typeof segment === "object" ? segment.key : segment)
+  );
+  return keys.length > 0 ? `${keys.join(".")}: ${message}` : message;
+}
+
+/**
+ * Runs a validator and returns the messages of its issues, or a promise of
+ * them for asynchronous Standard Schemas.
+ */
+function runValidator(
+  validator: Validator,
+  value: unknown,
+): string[] | PromiseLike<string[]> {
+  if (!isStandardSchema(validator)) {
+    return validator(value) ? [] : [
+      `Expected a value that passes ${
+        validator.name ? `"${validator.name}"` : "the type guard"
+      }`,
+    ];
+  }
+  const toMessages = (result: StandardSchemaResult<unknown>) =>
+    (result.issues ?? []).map(formatIssue);
+  const result = validator["~standard"].validate(value);
+  return isPromiseLike(result) ? result.then(toMessages) : toMessages(result);
+}
+
+/**
+ * The keys, out of `keys`, whose `required()` placeholder has a validator and
+ * whose provided value is neither a factory nor exempt from validation.
+ */
+function validatedKeys(
+  definition: Record<string, unknown>,
+  merged: Record<string, unknown>,
+  keys: readonly string[],
+): string[] {
+  return keys.filter((key) =>
+    isValidatedRequired(definition[key]) && key in merged &&
+    !isFactory(merged[key]) && !isUnchecked(merged[key])
+  );
+}
+
+function throwValidationIssues(
+  name: string,
+  keys: readonly string[],
+  messages: readonly (readonly string[])[],
+): void {
+  const issues: DependencyIssue[] = [];
+  keys.forEach((key, i) => {
+    for (const message of messages[i] ?? []) {
+      issues.push({ key, message });
+    }
+  });
+  if (issues.length > 0) {
+    throw new DependencyValidationError(name, issues);
+  }
+}
+
+/**
+ * Throws a `DependencyValidationError` if any provided value, out of `keys`,
+ * fails the validator of its `required()` placeholder. Returns a promise
+ * instead if any validator is an asynchronous Standard Schema.
+ */
+function validateDependencies(
+  name: string,
+  definition: Record<string, unknown>,
+  merged: Record<string, unknown>,
+  candidates: readonly string[],
+): void | Promise<void> {
+  const keys = validatedKeys(definition, merged, candidates);
+  const results = keys.map((key) =>
+    runValidator(
+      (definition[key] as ValidatedRequired)[requiredSymbol],
+      merged[key],
+    )
+  );
+  if (results.some(isPromiseLike)) {
+    return Promise.all(results).then((messages) =>
+      throwValidationIssues(name, keys, messages)
+    );
+  }
+  throwValidationIssues(name, keys, results as string[][]);
+}
+
+/**
+ * Whether a value is a factory marker, such as `lazy()` or `scoped()`.
+ * @internal
+ */
+export function isFactory(value: unknown): value is Factory<unknown> {
+  return typeof value === "object" && value !== null && factorySymbol in value;
+}
+
+function isEnvFactory(value: unknown): value is EnvFactory<unknown> {
+  return isFactory(value) && envSymbol in value;
+}
+
+/**
+ * Replaces every `env()` marker in the merged definition with its value.
+ * Throws a `DependencyValidationError` listing every variable that is missing
+ * or invalid.
+ */
+function resolveEnv(name: string, merged: Record<string, unknown>): void {
+  const issues: DependencyIssue[] = [];
+  for (const key of Object.keys(merged)) {
+    const value = merged[key];
+    if (!isEnvFactory(value)) {
+      continue;
+    }
+    try {
+      merged[key] = value[factorySymbol](merged as never);
+    } catch (error) {
+      issues.push({
+        key,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  if (issues.length > 0) {
+    throw new DependencyValidationError(name, issues);
+  }
+}
+
+function isNested(
+  value: unknown,
+): value is Nested<Record<string, unknown>, unknown> {
+  return isFactory(value) && nestedSymbol in value;
+}
+
+function isPerCallFactory(value: unknown): value is PerCallFactory<unknown> {
+  return isFactory(value) &&
+    (value.lifetime === "scoped" || value.lifetime === "transient");
+}
+
+/**
+ * Returns the value cached under `key`, creating and caching it first if needed.
+ */
+function getOrCreate<K, V>(
+  cache: {
+    has(key: K): boolean;
+    get(key: K): V | undefined;
+    set(key: K, value: V): unknown;
+  },
+  key: K,
+  create: () => V,
+): V {
+  if (!cache.has(key)) {
+    cache.set(key, create());
+  }
+  return cache.get(key) as V;
+}
+
+/**
+ * Everything a constructed function needs to resolve its dependencies.
+ */
+interface Binding {
+  /** The display name of the function, for error messages. */
+  readonly name: string;
+  /** The dependency definition object of the constructor, which identifies it to `addOverrides`. */
+  readonly definition: Record<string, unknown>;
+  /** The definition merged with the caller's requirements. */
+  readonly merged: Record<string, unknown>;
+  /** The keys supplied by the caller. Their values are never disposed. */
+  readonly overridden: ReadonlySet<string>;
+  /** The values created once per constructed function. */
+  readonly owner: Owner<string>;
+  /** The global and per-constructor interceptors, outermost first. */
+  readonly interceptors: readonly Interceptor[];
+  /** Whether the caller's `this` is passed on to the implementation. */
+  readonly forwardThis: boolean;
+  /** How the results of the function are cached, if they are. */
+  readonly cache: CacheOptions | undefined;
+}
+
+function createBinding<Args extends unknown[], Return>(
+  name: string,
+  dependencies: Record<string, unknown>,
+  requirements: Record<string, unknown> | undefined,
+  { interceptors = [], forwardThis = false, cache }: DefineFnOptions<
+    Args,
+    Return
+  > = {},
+): Binding {
+  const merged = { ...dependencies, ...requirements };
+  const overridden = new Set(Object.keys(requirements ?? {}));
+  // A hoisted requirement is no longer needed once every nested constructor
+  // that requires it is overridden as a whole.
+  for (const [key, nestedKeys] of hoistedKeys.get(dependencies) ?? []) {
+    if (
+      !overridden.has(key) &&
+      nestedKeys.every((nestedKey) => overridden.has(nestedKey))
+    ) {
+      delete merged[key];
+    }
+  }
+
+  return {
+    name,
+    definition: dependencies,
+    merged,
+    overridden,
+    owner: createOwner(),
+    // Global interceptors are captured here, so that adding or removing one
+    // later does not change functions that were already constructed.
+    interceptors: [
+      ...globalInterceptors,
+      ...interceptors as readonly unknown[] as readonly Interceptor[],
+    ],
+    forwardThis,
+    cache: cache as CacheOptions<unknown[]> | undefined,
+  };
+}
+
+/**
+ * Returns the binding with the overrides added for its definition applied, or
+ * the binding itself if there are none.
+ */
+function applyOverrides(binding: Binding): Binding {
+  const entries = dependencyOverrides.get(binding.definition);
+  if (!entries) {
+    return binding;
+  }
+
+  const values: Record<string, unknown> = Object.assign(
+    {},
+    ...entries.map((entry) => entry.values),
+  );
+  const latest = entries[entries.length - 1]!;
+  return {
+    ...binding,
+    merged: { ...binding.merged, ...values },
+    overridden: new Set([...binding.overridden, ...Object.keys(values)]),
+    owner: getOrCreate(latest.owners, binding.owner, createOwner<string>),
+  };
+}
+
+/**
+ * A unique symbol used to store the cache of a constructed function.
+ */
+const cacheSymbol = Symbol("cache");
+
+/**
+ * The cache of a function constructed with the `cache` option, as used by
+ * `invalidate` and `invalidateAll`.
+ */
+interface FnCache {
+  /** Returns the store of the function, resolved for the current call. */
+  readonly store: () => CacheStore;
+  readonly key: (...args: unknown[]) => string;
+}
+
+/**
+ * Serializes the arguments of a call with `JSON.stringify`, tagging strings,
+ * `undefined` and bigints so that, e.g., `undefined` and `null` get different
+ * keys. Functions, symbols and cyclic arguments have no key and throw.
+ */
+function defaultCacheKey(...args: unknown[]): string {
+  try {
+    return JSON.stringify(args, (_, value: unknown) => {
+      switch (typeof value) {
+        case "string":
+          return `s${value}`;
+        case "undefined":
+          return "u";
+        case "bigint":
+          return `n${value}`;
+        case "function":
+        case "symbol":
+          throw new TypeError(`A ${typeof value} cannot be serialized`);
+        default:
+          return value;
+      }
+    });
+  } catch (error) {
+    throw new TypeError(
+      `The arguments cannot be serialized into a cache key, pass a \`cache.key\` function instead: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { cause: error },
+    );
+  }
+}
+
+/**
+ * Wraps an implementation so that its results are cached in the store named
+ * by the binding's `cache` option. Without the option, the implementation is
+ * returned as is.
+ */
+function memoize<Args extends unknown[], Return>(
+  f: (deps: never, ...args: Args) => Return,
+  { cache }: Binding,
+): (deps: never, ...args: Args) => Return {
+  if (!cache) {
+    return f;
+  }
+
+  const { store, key = defaultCacheKey } = cache;
+  return function (this: unknown, deps, ...args) {
+    const cacheStore = (deps as Record<string, CacheStore>)[store]!;
+    const cacheKey = key(...args);
+    if (cacheStore.has(cacheKey)) {
+      return cacheStore.get(cacheKey) as Return;
+    }
+
+    const value = f.call(this, deps, ...args);
+    cacheStore.set(cacheKey, value);
+    if (isPromiseLike(value)) {
+      // Concurrent calls share the pending promise, but a rejected one is
+      // evicted so that the next call tries again.
+      value.then(undefined, () => {
+        if (cacheStore.get(cacheKey) === value) {
+          cacheStore.delete(cacheKey);
+        }
+      });
+    }
+    return value;
+  };
+}
+
+/**
+ * Wraps an implementation so that every call passes through the binding's
+ * interceptors. Without interceptors, the implementation is returned as is.
+ */
+function intercept<Args extends unknown[], Return>(
+  f: (deps: never, ...args: Args) => Return,
+  binding: Binding,
+): (deps: never, ...args: Args) => Return {
+  const { name, interceptors } = binding;
+  if (interceptors.length === 0) {
+    return f;
+  }
+
+  return function (this: unknown, deps, ...args) {
+    const dispatch = (index: number, args: Args): Return => {
+      const interceptor = interceptors[index];
+      if (!interceptor) {
+        return f.call(this, deps, ...args);
+      }
+      return interceptor(
+        { name, args, deps },
+        (...args) => dispatch(index + 1, args as Args),
+      ) as Return;
+    };
+    return dispatch(0, args);
+  };
+}
+
+/**
+ * Builds the `deps` object passed to an implementation from the merged
+ * definition. Factories are replaced with getters that compute the value on
+ * first access and then cache it as a plain property. Depending on the
+ * lifetime of a factory, the value is also cached by the binding's owner
+ * (once per constructed function), the active scope, or for every function.
+ * Values cached by an owner are recorded so that the owner can dispose of them.
+ */
+function resolveDependencies(
+  binding: Binding,
+  scope?: ScopeOwner,
+): Record<string, unknown> {
+  const { name, merged, overridden, owner } = binding;
+  const deps: Record<string, unknown> = {};
+  const resolving: string[] = [];
+
+  const create = (key: string, marker: Factory<unknown>) => {
+    const cycleStart = resolving.indexOf(key);
+    if (cycleStart !== -1) {
+      throw new CircularDependencyError([...resolving.slice(cycleStart), key]);
+    }
+
+    resolving.push(key);
+    try {
+      return marker[factorySymbol](deps as never);
+    } finally {
+      resolving.pop();
+    }
+  };
+
+  const createOwned = (
+    resources: Resource[],
+    key: string,
+    marker: Factory<unknown>,
+  ) => {
+    const value = create(key, marker);
+    if (!overridden.has(key)) {
+      addResource(resources, value, marker.dispose);
+    }
+    return value;
+  };
+
+  const read = (key: string, marker: Factory<unknown>) => {
+    switch (marker.lifetime) {
+      case "transient":
+        return create(key, marker);
+      case "singleton":
+        return getOrCreate(
+          singletonInstances,
+          marker,
+          () => create(key, marker),
+        );
+      case "scoped":
+        if (!scope) {
+          throw new MissingScopeError(name, key);
+        }
+        return getOrCreate(
+          scope.instances,
+          marker,
+          () => createOwned(scope.resources, key, marker),
+        );
+      default:
+        return getOrCreate(
+          owner.instances,
+          key,
+          () => createOwned(owner.resources, key, marker),
+        );
+    }
+  };
+
+  for (const key of Object.keys(merged)) {
+    const value = merged[key];
+    if (value === optionalSymbol) {
+      // Optional keys that were not provided are left out, so that `in`
+      // tells them apart from keys provided as `undefined`.
+      continue;
+    }
+    if (!isFactory(value)) {
+      deps[key] = value;
+      continue;
+    }
+
+    Object.defineProperty(deps, key, {
+      configurable: true,
+      enumerable: true,
+      get() {
+        const resolved = read(key, value);
+        Object.defineProperty(deps, key, { enumerable: true, value: resolved });
+        return resolved;
+      },
+    });
+  }
+
+  return deps;
+}
+
+/**
+ * Throws a `DisposedFunctionError` if the values of the binding were disposed
+ * of.
+ */
+function assertNotDisposed({ name, owner }: Binding): void {
+  if (owner.disposed) {
+    throw new DisposedFunctionError(name);
+  }
+}
+
+/**
+ * Sets the `name` of a constructed function to the name of its definition,
+ * rather than "bound f", and its `length` to the number of arguments callers
+ * pass, which excludes the `deps` argument of the implementation.
+ */
+function nameFunction<Fn extends (...args: never[]) => unknown>(
+  fn: Fn,
+  name: string,
+  implementation: (...args: never) => unknown,
+): Fn {
+  Object.defineProperty(fn, "name", { value: name });
+  Object.defineProperty(fn, "length", {
+    value: Math.max(0, implementation.length - 1),
+  });
+  return fn;
 }
 
 /**
- * A branded type representing a required dependency placeholder.
- * @template T - The type of the required dependency.
- * @internal
+ * Creates the final function from an implementation and its binding.
+ * Calls pass through the binding's interceptors. Functions with `scoped()` or `transient()` dependencies build a fresh `deps`
+ * object on every call, and so do all functions while overrides are added for
+ * their definition; all others share a single one. The function can be
+ * disposed of, which disposes of the values its binding owns, after which it
+ * throws a `DisposedFunctionError` when called.
  */
-type Required<T> = typeof requiredSymbol & {
-  _type: T;
-};
+function bindDependencies<Args extends unknown[], Return>(
+  implementation: (deps: never, ...args: Args) => Return,
+  binding: Binding,
+): (...args: Args) => Return {
+  const { merged, owner, forwardThis, cache } = binding;
+  const f = intercept(memoize(implementation, binding), binding);
+  const perCall = Object.keys(merged).some((key) =>
+    isPerCallFactory(merged[key])
+  );
+  const shared = perCall ? undefined : resolveDependencies(binding);
+
+  const fn = function (this: unknown, ...args: Args) {
+    assertNotDisposed(binding);
+    const overridden = applyOverrides(binding);
+    // The scope is captured at call time, so it stays available to
+    // dependencies accessed after the implementation has awaited.
+    const deps = overridden === binding && shared
+      ? shared
+      : resolveDependencies(overridden, scopeStorage.getStore());
+    return f.call(forwardThis ? this : undefined, deps as never, ...args);
+  };
+
+  if (cache) {
+    const fnCache: FnCache = {
+      store: () =>
+        (resolveDependencies(
+          applyOverrides(binding),
+          scopeStorage.getStore(),
+        ) as Record<string, CacheStore>)[cache.store]!,
+      key: cache.key ?? defaultCacheKey,
+    };
+    Object.assign(fn, { [cacheSymbol]: fnCache });
+  }
+
+  return Object.assign(nameFunction(fn, binding.name, implementation), {
+    [Symbol.dispose]: () => disposeOwner(owner),
+    [Symbol.asyncDispose]: () => disposeOwnerAsync(owner),
+  });
+}
 
 /**
- * A utility type that resolves the final dependency types,
- * replacing `Required<T>` placeholders with their actual type `T`.
- * @template T - The dependency definition object.
- * @internal
+ * Creates the binding for a call of a synchronous constructor. Unless
+ * validation is disabled, every required dependency must be provided and
+ * pass its validator. `env()` markers are resolved here, so that every
+ * missing or invalid setting is reported at once.
  */
-type Dependencies<T extends Record<string, unknown>> = {
-  readonly [K in keyof T]: T[K] extends Required<infer U> ? U : T[K];
-};
+function bindRequirements<Args extends unknown[], Return>(
+  name: string,
+  definition: Record<string, unknown>,
+  requirements: Record<string, unknown> | undefined,
+  options: DefineFnOptions<Args, Return>,
+): Binding {
+  const { validate = true } = options;
+  const binding = createBinding(name, definition, requirements, options);
+
+  if (validate) {
+    assertProvided(name, binding.merged);
+  }
+  resolveEnv(name, binding.merged);
+
+  if (validate) {
+    const validation = validateDependencies(
+      name,
+      definition,
+      binding.merged,
+      Object.keys(definition),
+    );
+    if (validation) {
+      // The result cannot be waited for, so its failure is not reported twice.
+      validation.catch(() => {});
+      throw new TypeError(
+        "Asynchronous validators are only supported by defineAsyncFn",
+      );
+    }
+  }
+
+  return binding;
+}
 
 /**
- * A utility type that extracts only the required dependencies from a definition.
- * It produces an object type where required dependencies are mandatory,
- * and dependencies with default values are optional (allowing overrides).
- * @template T - The dependency definition object.
- * @internal
+ * Returns a constructed function typed as `Disposable` and `AsyncDisposable`,
+ * so that it can be declared with `using` or `await using`.
+ *
+ * Disposing of the function disposes of the values created by its `lazy()`
+ * and `factory()` dependencies, in reverse creation order. Values supplied
+ * by the caller, `singleton()` and `transient()` values are never disposed.
+ *
+ * Objects of methods built by `defineMethods` and `defineClass` can be
+ * disposed of in the same way.
+ *
+ * Synchronous disposal throws a `TypeError` if a cleanup returns a promise or
+ * a value is still being created; use `await using` for those.
+ *
+ * @template Fn - The type of the constructed function or object.
+ * @param fn - A function or object returned by a constructor from `defineFn`, `defineAsyncFn`, `defineMethods` or `defineClass`.
+ * @returns The same function or object, typed as disposable.
+ * @throws {TypeError} If `fn` was not returned by a constructor.
+ * @example
+ * ```ts
+ * const constructFindUser = defineFn({
+ *   db: lazy(() => new Pool(), { dispose: (pool) => pool.end() }),
+ * }, ({ db }, id: string) => { ... });
+ *
+ * {
+ *   await using findUser = disposable(constructFindUser());
+ *   await findUser("1");
+ * } // The pool is ended here.
+ * ```
  */
-type Requirements<T extends Record<string, unknown>> =
-  & {
-    // Extracts keys for properties typed as `Required<T>` and makes them non-optional.
-    [K in keyof T as T[K] extends Required<unknown> ? K : never]: T[K] extends
-      Required<infer U> ? U : never;
+export function disposable<Fn extends object>(
+  fn: Fn,
+): Fn & Disposable & AsyncDisposable {
+  if (!(Symbol.dispose in fn && Symbol.asyncDispose in fn)) {
+    throw new TypeError("The value was not returned by a constructor");
   }
-  & {
-    // Extracts keys for properties that are not `Required<T>` and makes them optional.
-    [K in keyof T as T[K] extends Required<unknown> ? never : K]?: T[K];
-  };
+  return fn as Fn & Disposable & AsyncDisposable;
+}
+
+function cacheOf(fn: object): FnCache {
+  const cache = (fn as { [cacheSymbol]?: FnCache })[cacheSymbol];
+  if (!cache) {
+    throw new TypeError("The function was not constructed with a cache");
+  }
+  return cache;
+}
 
 /**
- * Represents the constructor function returned by `defineFn`.
- * It is a callable function that may or may not require an argument,
- * depending on whether there are required dependencies.
+ * Evicts the cached result of a call of a function defined with the `cache`
+ * option, so that the next call with the same arguments runs again.
  *
- * @template T - The dependency definition object.
- * @template Fn - The type of the final constructed function.
+ * @template Args - The arguments of the function.
+ * @param fn - A function returned by a constructor defined with the `cache` option.
+ * @param args - The arguments of the call whose result is evicted.
+ * @throws {TypeError} If `fn` was not constructed with the `cache` option.
+ * @example
+ * ```ts
+ * await saveUser(user);
+ * invalidate(findUser, user.id);
+ * ```
  */
-export interface FnConstructor<
-  T extends Record<string, unknown>,
-  Fn extends (...args: never[]) => unknown,
-> {
-  /**
-   * Constructs the final function by providing dependencies.
-   * @param requirements - An object containing the required dependencies and any optional overrides.
-   *                       This argument is optional if no dependencies are marked as `required`.
-   */
-  (
-    ...args: Extract<T[keyof T], Required<unknown>> extends never
-      ? [requirements?: Requirements<T>]
-      : [requirements: Requirements<T>]
-  ): Fn;
+export function invalidate<Args extends unknown[]>(
+  fn: (...args: Args) => unknown,
+  ...args: Args
+): void {
+  const { store, key } = cacheOf(fn);
+  store().delete(key(...args));
+}
+
+/**
+ * Evicts every cached result of a function defined with the `cache` option,
+ * by clearing its store.
+ *
+ * @param fn - A function returned by a constructor defined with the `cache` option.
+ * @throws {TypeError} If `fn` was not constructed with the `cache` option.
+ */
+export function invalidateAll(fn: (...args: never[]) => unknown): void {
+  cacheOf(fn).store().clear();
 }
 
 /**
@@ -94,34 +2536,620 @@ export interface FnConstructor<
  * @template T - The dependency definition object, which can include both default values and `required<T>()` placeholders.
  * @template Args - The arguments of the resulting function.
  * @template Return - The return type of the resulting function.
- * @param dependencies - An object defining the dependencies. Use a direct value for defaults, and `required<T>()` for mandatory dependencies.
+ * @template This - The `this` type declared by the implementation, if it is forwarded with the `forwardThis` option.
+ * @param dependencies - An object defining the dependencies. Use a direct value for defaults, `lazy()` or `factory()` for defaults computed on first use, and `required<T>()` for mandatory dependencies.
  * @param f - The function implementation, which receives the resolved dependencies as its first argument.
+ * @param options - Optional settings such as a display name, whether to validate required dependencies and interceptors.
  * @returns A constructor function to which you pass the required dependencies.
+ * @throws {MissingDependencyError} From the returned constructor, if a required dependency is not provided.
  */
 export function defineFn<
   T extends Record<string, unknown>,
   Args extends unknown[],
   Return,
+  This = unknown,
 >(
-  dependencies: T,
-  f: (deps: Dependencies<T>, ...args: Args) => Return,
-): FnConstructor<T, (...args: Args) => Return> {
-  return ((requirements: Requirements<T>) => {
-    // The `bind` method creates a new function that, when called, has its
-    // `this` keyword set to the provided value, with a given sequence of arguments
-    // preceding any provided when the new function is called.
-    // We use `null` for `this` as it's not used, and we pre-fill the `deps` argument.
-    return f.bind(
-      null,
-      { ...dependencies, ...requirements } as Dependencies<T>,
+  dependencies: T & CheckedDefinition<T>,
+  f: (this: This, deps: Dependencies<T>, ...args: Args) => Return,
+  options: DefineFnOptions<
+    NoInfer<Args>,
+    NoInfer<Return>,
+    NoInfer<Dependencies<T>>
+  > = {},
+): FnConstructor<Hoisted<T>, BoundFn<This, Args, Return>> {
+  const { name = f.name } = options;
+  const hoisted = hoistRequirements(dependencies);
+
+  const construct = (requirements?: Requirements<Hoisted<T>>) =>
+    bindDependencies(
+      f,
+      bindRequirements(name, hoisted, requirements, options),
     );
+
+  return Object.assign(construct, {
+    [definitionSymbol]: {
+      dependencies: hoisted,
+      name,
+      description: options.description,
+      async: false,
+      overrideTarget: hoisted,
+    },
   }) as (
     // The constructor's `requirements` argument is made optional if no dependencies are
     // marked as `required<T>()`. This provides a better developer experience.
-    FnConstructor<T, (...args: Args) => Return>
+    FnConstructor<Hoisted<T>, BoundFn<This, Args, Return>>
   );
 }
 
+/**
+ * Defines a function whose dependencies are resolved asynchronously.
+ *
+ * This is the async sibling of `defineFn`. Defaults and overrides may be
+ * promises or async factories (`lazy(async () => ...)`, `factory(async deps => ...)`).
+ * The returned constructor resolves all of them in parallel and returns a
+ * promise of the final, dependency-injected function.
+ *
+ * Factories receive the other dependencies with their promises already
+ * resolved, except for other factories, whose results are passed as they were
+ * returned and should be awaited.
+ *
+ * @template T - The dependency definition object, which can include both default values and `required<T>()` placeholders.
+ * @template Args - The arguments of the resulting function.
+ * @template Return - The return type of the resulting function.
+ * @template This - The `this` type declared by the implementation, if it is forwarded with the `forwardThis` option.
+ * @param dependencies - An object defining the dependencies. Values may be promises or async factories.
+ * @param f - The function implementation, which receives the resolved dependencies as its first argument.
+ * @param options - Optional settings such as a display name, whether to validate required dependencies and interceptors.
+ * @returns A constructor function to which you pass the required dependencies.
+ * @throws {MissingDependencyError} From the returned constructor, if a required dependency is not provided.
+ * @throws {DependencyResolutionError} From the returned constructor, if a dependency fails to resolve.
+ * @example
+ * ```ts
+ * const constructFindUser = defineAsyncFn({
+ *   config: required<Config>(),
+ *   db: factory(async (deps: { config: Config }) => await connect(deps.config.databaseUrl)),
+ * }, ({ db }, id: string) => db.query("SELECT * FROM users WHERE id = ?", [id]));
+ *
+ * const findUser = await constructFindUser({ config: loadConfig() });
+ * ```
+ */
+export function defineAsyncFn<
+  T extends Record<string, unknown>,
+  Args extends unknown[],
+  Return,
+  This = unknown,
+>(
+  dependencies: T & CheckedDefinition<T, AsyncFactoryDependencies<T>>,
+  f: (this: This, deps: AsyncDependencies<T>, ...args: Args) => Return,
+  options: DefineFnOptions<
+    NoInfer<Args>,
+    NoInfer<Return>,
+    NoInfer<AsyncDependencies<T>>
+  > = {},
+): AsyncFnConstructor<Hoisted<T>, BoundFn<This, Args, Return>> {
+  const { name = f.name, validate = true } = options;
+  const hoisted = hoistRequirements(dependencies);
+
+  const settle = (
+    keys: readonly string[],
+    read: (key: string) => unknown,
+  ): Promise<unknown[]> =>
+    Promise.all(keys.map(async (key) => {
+      try {
+        return await read(key);
+      } catch (error) {
+        throw new DependencyResolutionError(name, key, error);
+      }
+    }));
+
+  const construct = async (requirements?: AsyncRequirements<Hoisted<T>>) => {
+    const binding = createBinding(name, hoisted, requirements, options);
+    const { merged } = binding;
+
+    if (validate) {
+      assertProvided(name, merged);
+    }
+    resolveEnv(name, merged);
+
+    // Plain values are awaited first, so factories can read them directly.
+    const plainKeys = Object.keys(merged).filter((key) =>
+      !isFactory(merged[key])
+    );
+    const plainValues = await settle(plainKeys, (key) => merged[key]);
+    plainKeys.forEach((key, i) => merged[key] = plainValues[i]);
+    const plainValidation = validate &&
+      validateDependencies(name, hoisted, merged, plainKeys);
+    if (plainValidation) {
+      await plainValidation;
+    }
+
+    // Factories are then started together; reading one from another shares its result.
+    // Per-call factories are left to be created on each call.
+    const deps = resolveDependencies(binding);
+    const factoryKeys = Object.keys(merged).filter((key) =>
+      isFactory(merged[key]) && !isPerCallFactory(merged[key])
+    );
+    try {
+      const factoryValues = await settle(factoryKeys, (key) => deps[key]);
+      factoryKeys.forEach((key, i) => merged[key] = factoryValues[i]);
+      const factoryValidation = validate &&
+        validateDependencies(name, hoisted, merged, factoryKeys);
+      if (factoryValidation) {
+        await factoryValidation;
+      }
+    } catch (error) {
+      // The function is never returned, so nothing else can dispose of the
+      // values that the other factories created.
+      try {
+        await disposeOwnerAsync(binding.owner);
+      } catch (disposalError) {
+        throw new AggregateError(
+          [error, disposalError],
+          "Failed to resolve dependencies and to dispose of the created values",
+        );
+      }
+      throw error;
+    }
+
+    return bindDependencies(f, binding);
+  };
+
+  return Object.assign(construct, {
+    [definitionSymbol]: {
+      dependencies: hoisted,
+      name,
+      description: options.description,
+      async: true,
+      overrideTarget: hoisted,
+    },
+  }) as AsyncFnConstructor<Hoisted<T>, BoundFn<This, Args, Return>>;
+}
+
+/**
+ * Defines a function whose call signature is kept exactly as written,
+ * including type parameters and overloads.
+ *
+ * `defineFn` infers the arguments and return type of the implementation, so a
+ * generic implementation loses its type parameters. Here the implementation
+ * receives the resolved dependencies and returns the function, whose type is
+ * taken as a whole. It is called on every call of the constructed function,
+ * so `scoped()` and `transient()` dependencies are resolved as with `defineFn`.
+ * As the signature is only known once it is returned, the constructed
+ * function's `length` is `0`.
+ *
+ * @template T - The dependency definition object, which can include both default values and `required<T>()` placeholders.
+ * @template Fn - The type of the resulting function.
+ * @param dependencies - An object defining the dependencies, as for `defineFn`.
+ * @param f - A function receiving the resolved dependencies and returning the implementation.
+ * @param options - Optional settings as for `defineFn`.
+ * @returns A constructor function to which you pass the required dependencies.
+ * @throws {MissingDependencyError} From the returned constructor, if a required dependency is not provided.
+ * @example
+ * ```ts
+ * const constructFindById = defineGenericFn(
+ *   { db: required<Database>() },
+ *   ({ db }) => <T>(table: string, id: string, schema: Schema<T>): T =>
+ *     schema.parse(db.findById(table, id)),
+ * );
+ *
+ * const findById = constructFindById({ db });
+ * const user = findById("users", "1", userSchema); // User
+ * ```
+ */
+export function defineGenericFn<
+  T extends Record<string, unknown>,
+  Fn extends (...args: never[]) => unknown,
+>(
+  dependencies: T & CheckedDefinition<T>,
+  f: (deps: Dependencies<T>) => Fn,
+  options: DefineFnOptions<unknown[], unknown, NoInfer<Dependencies<T>>> = {},
+): FnConstructor<Hoisted<T>, Fn> {
+  const { name = f.name } = options;
+  const hoisted = hoistRequirements(dependencies);
+
+  const implementation = function (
+    this: unknown,
+    deps: Dependencies<T>,
+    ...args: unknown[]
+  ) {
+    return Reflect.apply(f(deps), this, args);
+  };
+
+  const construct = (requirements?: Requirements<Hoisted<T>>): Fn =>
+    bindDependencies(
+      implementation,
+      bindRequirements(name, hoisted, requirements, options),
+    ) as never;
+
+  return Object.assign(construct, {
+    [definitionSymbol]: {
+      dependencies: hoisted,
+      name,
+      description: options.description,
+      async: false,
+      overrideTarget: hoisted,
+    },
+  }) as FnConstructor<Hoisted<T>, Fn>;
+}
+
+/**
+ * The object of bound methods built from a record of implementations by `defineMethods`.
+ * Each method has the signature of its implementation without the `deps` argument.
+ * @template M - The record of method implementations.
+ */
+export type BoundMethods<M> = {
+  [K in keyof M]: M[K] extends
+    (deps: never, ...args: infer Args) => infer Return
+    ? (...args: Args) => Return
+    : never;
+};
+
+/**
+ * The public methods of a class instance, as built by `defineClass`.
+ * @template I - The type of the class instance.
+ */
+export type MethodsOf<I> = {
+  [
+    K in keyof I as I[K] extends (...args: never[]) => unknown ? K : never
+  ]: I[K];
+};
+
+/**
+ * Builds an object of methods that share one binding, so that their
+ * dependencies are resolved and disposed of together. Each method is named
+ * after its key for interceptors. Methods are given `deps` as is, if passed.
+ */
+function bindMethods(
+  methods: Record<string, (deps: never, ...args: never[]) => unknown>,
+  binding: Binding,
+  deps?: Record<string, unknown>,
+): Record<string, unknown> {
+  const bound: Record<string, unknown> = {};
+  for (const key of Object.keys(methods)) {
+    const methodBinding = {
+      ...binding,
+      name: binding.name ? `${binding.name}.${key}` : key,
+    };
+    if (!deps) {
+      bound[key] = bindDependencies(methods[key]!, methodBinding);
+      continue;
+    }
+    const method = intercept(methods[key]!, methodBinding);
+    bound[key] = nameFunction(
+      (...args: never[]) => {
+        assertNotDisposed(methodBinding);
+        return method(deps as never, ...args);
+      },
+      methodBinding.name,
+      methods[key]!,
+    );
+  }
+  return Object.assign(bound, {
+    [Symbol.dispose]: () => disposeOwner(binding.owner),
+    [Symbol.asyncDispose]: () => disposeOwnerAsync(binding.owner),
+  });
+}
+
+/**
+ * Defines a group of related functions that share the same dependencies.
+ *
+ * Like `defineFn`, but takes a record of implementations and returns a
+ * constructor that builds an object of bound methods. The methods share their
+ * dependencies: a `lazy()` value is created once for the whole object, and
+ * disposing of the object disposes of it.
+ *
+ * @template T - The dependency definition object, which can include both default values and `required<T>()` placeholders.
+ * @template M - The record of method implementations.
+ * @param dependencies - An object defining the dependencies, as for `defineFn`.
+ * @param methods - The method implementations, which receive the resolved dependencies as their first argument.
+ * @param options - Optional settings as for `defineFn`, except `cache`. Interceptors see each method's name as `name.method`.
+ * @returns A constructor function to which you pass the required dependencies.
+ * @throws {MissingDependencyError} From the returned constructor, if a required dependency is not provided.
+ * @example
+ * ```ts
+ * const constructUserRepository = defineMethods({ db: required<Database>() }, {
+ *   findUser: ({ db }, id: string) => db.query("SELECT * FROM users WHERE id = ?", [id]),
+ *   saveUser: ({ db }, user: User) => db.insert("users", user),
+ * }) satisfies MethodsConstructorOf<UserRepository>;
+ *
+ * const users = constructUserRepository({ db });
+ * await users.findUser("1");
+ * ```
+ */
+export function defineMethods<
+  T extends Record<string, unknown>,
+  M extends Record<
+    string,
+    (deps: Dependencies<T>, ...args: never[]) => unknown
+  >,
+>(
+  dependencies: T & CheckedDefinition<T>,
+  methods: M,
+  options: Omit<DefineFnOptions, "cache"> = {},
+): FnConstructor<Hoisted<T>, BoundMethods<M>> {
+  const { name = "" } = options;
+  const hoisted = hoistRequirements(dependencies);
+
+  const construct = (requirements?: Requirements<Hoisted<T>>) =>
+    bindMethods(
+      methods,
+      bindRequirements(name, hoisted, requirements, options),
+    );
+
+  return Object.assign(construct, {
+    [definitionSymbol]: {
+      dependencies: hoisted,
+      name,
+      description: options.description,
+      async: false,
+      overrideTarget: hoisted,
+    },
+  }) as FnConstructor<Hoisted<T>, BoundMethods<M>>;
+}
+
+/**
+ * Returns the names of the methods of an instance: the functions on its
+ * prototype chain and its own function-valued properties, e.g. arrow functions
+ * assigned to fields.
+ */
+function methodNamesOf(instance: object): string[] {
+  const names = new Set<string>();
+  let prototype: object | null = Object.getPrototypeOf(instance);
+  while (prototype && prototype !== Object.prototype) {
+    for (const key of Object.getOwnPropertyNames(prototype)) {
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+      if (key !== "constructor" && typeof descriptor?.value === "function") {
+        names.add(key);
+      }
+    }
+    prototype = Object.getPrototypeOf(prototype);
+  }
+  for (const key of Object.keys(instance)) {
+    if (typeof (instance as Record<string, unknown>)[key] === "function") {
+      names.add(key);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Defines a group of related functions as a class whose constructor receives the dependencies.
+ *
+ * The returned constructor creates an instance of the class with the resolved
+ * dependencies, and returns an object of its public methods, bound to the
+ * instance so that they can be passed around on their own. The instance
+ * receives its dependencies once, when it is created.
+ *
+ * @template T - The dependency definition object, which can include both default values and `required<T>()` placeholders.
+ * @template I - The type of the class instance.
+ * @param dependencies - An object defining the dependencies, as for `defineFn`.
+ * @param Class - A class whose constructor takes the resolved dependencies.
+ * @param options - Optional settings as for `defineFn`, except `cache`. The name defaults to the name of the class.
+ * @returns A constructor function to which you pass the required dependencies.
+ * @throws {MissingDependencyError} From the returned constructor, if a required dependency is not provided.
+ * @example
+ * ```ts
+ * class UserService {
+ *   readonly #db: Database;
+ *
+ *   constructor(deps: { db: Database }) {
+ *     this.#db = deps.db;
+ *   }
+ *
+ *   findUser(id: string) {
+ *     return this.#db.query("SELECT * FROM users WHERE id = ?", [id]);
+ *   }
+ * }
+ *
+ * const constructUserService = defineClass({ db: required<Database>() }, UserService);
+ * const { findUser } = constructUserService({ db });
+ * ```
+ */
+export function defineClass<
+  T extends Record<string, unknown>,
+  I extends object,
+>(
+  dependencies: T & CheckedDefinition<T>,
+  Class: new (deps: Dependencies<T>) => I,
+  options: Omit<DefineFnOptions, "cache"> = {},
+): FnConstructor<Hoisted<T>, MethodsOf<I>> {
+  const { name = Class.name } = options;
+  const hoisted = hoistRequirements(dependencies);
+
+  const construct = (requirements?: Requirements<Hoisted<T>>) => {
+    const binding = bindRequirements(name, hoisted, requirements, options);
+    // The scope is captured when the instance is created, which is the only
+    // time it receives its dependencies.
+    const deps = resolveDependencies(binding, scopeStorage.getStore());
+    const instance = new Class(deps as Dependencies<T>);
+    const methods: Record<
+      string,
+      (deps: never, ...args: unknown[]) => unknown
+    > = {};
+    for (const key of methodNamesOf(instance)) {
+      const method =
+        (instance as Record<string, (...args: unknown[]) => unknown>)[key]!;
+      // The wrapper takes the place of an implementation, so it declares
+      // `deps` on top of the arguments of the method.
+      methods[key] = Object.defineProperty(
+        (_deps: never, ...args: unknown[]) => method.apply(instance, args),
+        "length",
+        { value: method.length + 1 },
+      );
+    }
+    return bindMethods(methods, binding, deps);
+  };
+
+  return Object.assign(construct, {
+    [definitionSymbol]: {
+      dependencies: hoisted,
+      name,
+      description: options.description,
+      async: false,
+      overrideTarget: undefined,
+    },
+  }) as FnConstructor<Hoisted<T>, MethodsOf<I>>;
+}
+
+/**
+ * A dependency definition object with the keys in `K` supplied by `partial`.
+ * Supplied keys become plain defaults of their resolved type, so they are no
+ * longer required but can still be overridden.
+ * @template T - The dependency definition object.
+ * @template K - The supplied keys.
+ */
+export type Provided<T extends Record<string, unknown>, K extends keyof T> = {
+  [P in keyof T]: P extends K ? Resolve<T[P]> : T[P];
+};
+
+/**
+ * Like `Provided<T, K>`, for the dependency definition objects of `defineAsyncFn`.
+ * @template T - The dependency definition object.
+ * @template K - The supplied keys.
+ */
+export type AsyncProvided<
+  T extends Record<string, unknown>,
+  K extends keyof T,
+> = {
+  [P in keyof T]: P extends K ? AsyncDependencies<T>[P] : T[P];
+};
+
+/**
+ * Supplies some dependencies of a constructor ahead of time.
+ *
+ * The returned constructor no longer requires the supplied keys: they become
+ * defaults, which a later call, or a later `partial`, can still override.
+ * Once no `required<T>()` dependency is left, its `requirements` argument is
+ * optional. The original constructor is left unchanged.
+ *
+ * @template T - The dependency definition object of the constructor.
+ * @template Fn - The type of the constructed function.
+ * @template P - The supplied dependencies.
+ * @param constructor - A constructor created by `defineFn` or `defineAsyncFn`.
+ * @param deps - Some of the dependencies the constructor accepts.
+ * @returns A new constructor for the same function, with `deps` as defaults.
+ * @example
+ * ```ts
+ * // In the composition root, once infrastructure is available.
+ * const constructPlaceOrder = partial(definePlaceOrder, { db, clock });
+ *
+ * // Later, once the feature dependencies are known.
+ * const placeOrder = constructPlaceOrder({ paymentGateway });
+ * ```
+ */
+export function partial<
+  T extends Record<string, unknown>,
+  Fn,
+  P extends Partial<AsyncRequirements<T>>,
+>(
+  constructor: AsyncFnConstructor<T, Fn>,
+  deps: P & { readonly [K in Exclude<keyof P, keyof T>]: never },
+): AsyncFnConstructor<AsyncProvided<T, keyof P & keyof T>, Fn>;
+export function partial<
+  T extends Record<string, unknown>,
+  Fn,
+  P extends Partial<Requirements<T>>,
+>(
+  constructor: FnConstructor<T, Fn>,
+  deps: P & { readonly [K in Exclude<keyof P, keyof T>]: never },
+): FnConstructor<Provided<T, keyof P & keyof T>, Fn>;
+export function partial(
+  constructor:
+    & { readonly [definitionSymbol]: FnDefinition<Record<string, unknown>> }
+    & ((requirements?: Record<string, unknown>) => unknown),
+  deps: Record<string, unknown>,
+): unknown {
+  const definition = constructor[definitionSymbol];
+  const construct = (requirements?: Record<string, unknown>) =>
+    constructor({ ...deps, ...requirements });
+
+  return Object.assign(construct, {
+    [definitionSymbol]: {
+      ...definition,
+      dependencies: { ...definition.dependencies, ...deps },
+    },
+  });
+}
+
+function describeDependency(value: unknown): DependencyDescription {
+  if (isRequired(value)) {
+    return { kind: "required" };
+  }
+  if (value === optionalSymbol) {
+    return { kind: "optional" };
+  }
+  if (isFactory(value)) {
+    return { kind: "factory", lifetime: value.lifetime };
+  }
+  return { kind: "value", value };
+}
+
+/**
+ * Returns the metadata of a constructor created by `defineFn` or `defineAsyncFn`:
+ * its name and description, which dependencies are required or optional, and
+ * which have defaults.
+ *
+ * This lets tooling such as containers, documentation generators and test
+ * helpers reason about dependencies without calling the constructor.
+ *
+ * @template T - The dependency definition object of the constructor.
+ * @param constructor - A constructor created by `defineFn` or `defineAsyncFn`.
+ * @returns The metadata of the constructor.
+ * @throws {TypeError} If `constructor` was not created by `defineFn` or `defineAsyncFn`.
+ * @example
+ * ```ts
+ * const constructProcessOrder = defineFn({
+ *   paymentProcessor: required<PaymentProcessor>(),
+ *   logger: console,
+ * }, ({ paymentProcessor, logger }, order: Order) => { ... }, {
+ *   name: "processOrder",
+ *   description: "Charges the customer for an order.",
+ * });
+ *
+ * const { name, required, defaults } = describeFn(constructProcessOrder);
+ * // name: "processOrder", required: ["paymentProcessor"], defaults: ["logger"]
+ * ```
+ */
+export function describeFn<T extends Record<string, unknown>>(
+  constructor: { readonly [definitionSymbol]: FnDefinition<T> },
+): FnDescription<T> {
+  const definition = (constructor as Partial<typeof constructor>)[
+    definitionSymbol
+  ];
+  if (!definition) {
+    throw new TypeError(
+      "The constructor was not created by defineFn or defineAsyncFn",
+    );
+  }
+
+  const { dependencies, name, description, async } = definition;
+  const described: Record<string, DependencyDescription> = {};
+  const required: FnDescription<T>["required"][number][] = [];
+  const optional: FnDescription<T>["optional"][number][] = [];
+  const defaults: FnDescription<T>["defaults"][number][] = [];
+
+  for (const key of Object.keys(dependencies)) {
+    described[key] = describeDependency(dependencies[key]);
+    if (described[key].kind === "required") {
+      required.push(key as RequiredKeys<T> & string);
+    } else if (described[key].kind === "optional") {
+      optional.push(key as OptionalKeys<T> & string);
+    } else {
+      defaults.push(key as FnDescription<T>["defaults"][number]);
+    }
+  }
+
+  return {
+    name,
+    description,
+    async,
+    required,
+    optional,
+    defaults,
+    dependencies: described as FnDescription<T>["dependencies"],
+  };
+}
+
 /**
  * A utility type to extract the final, constructed function type from a constructor.
  * @deprecated Use `ReturnType<typeof yourConstructorFn>` instead.
@@ -166,3 +3194,45 @@ export type Constructed<
 export type ConstructorOf<Fn extends (...args: never[]) => unknown> = (
   requirements: never,
 ) => Fn;
+
+/**
+ * A utility type that ensures a constructor from `defineMethods` or `defineClass`
+ * produces an object of methods matching a specific interface.
+ *
+ * @template Methods - The interface the object of methods should implement.
+ * @example
+ * ```ts
+ * interface UserRepository {
+ *   findUser(id: string): Promise<User | null>;
+ *   saveUser(user: User): Promise<void>;
+ * }
+ *
+ * const constructUserRepository = defineMethods({ db: required<Database>() }, {
+ *   findUser: ({ db }, id: string) => db.query("SELECT * FROM users WHERE id = ?", [id]),
+ *   saveUser: ({ db }, user: User) => db.insert("users", user),
+ * }) satisfies MethodsConstructorOf<UserRepository>;
+ * ```
+ */
+export type MethodsConstructorOf<Methods extends object> = (
+  requirements: never,
+) => Methods;
+
+/**
+ * A utility type that ensures an async constructor function produces a function matching a specific type.
+ *
+ * This is the `defineAsyncFn` counterpart of `ConstructorOf`.
+ *
+ * @template Fn - The function type that the constructor should produce.
+ * @example
+ * ```ts
+ * type FindUserById = (id: string) => Promise<User | null>;
+ *
+ * const constructFindUserById = defineAsyncFn(
+ *   { db: lazy(() => connect()) },
+ *   ({ db }, id: string) => db.query("SELECT * FROM users WHERE id = ?", [id]),
+ * ) satisfies AsyncConstructorOf<FindUserById>;
+ * ```
+ */
+export type AsyncConstructorOf<Fn extends (...args: never[]) => unknown> = (
+  requirements: never,
+) => Promise<Fn>;
@@ -0,0 +1,4 @@
+import { defineFn } from "../index.ts";
+
+// deno-lint-ignore no-unused-vars
+const constructA = defineFn({ a: 1 }, ({ a }) => a);
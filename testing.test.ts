@@ -0,0 +1,476 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { assertType, type IsExact } from "@std/testing/types";
+import {
+  defineAsyncFn,
+  defineClass,
+  defineFn,
+  defineMethods,
+  DependencyValidationError,
+  factory,
+  lazy,
+  optional,
+  partial,
+  required,
+} from "./index.ts";
+import {
+  type MockCall,
+  mockDependencies,
+  override,
+  restore,
+  UnexpectedCallError,
+  withOverrides,
+} from "./testing.ts";
+
+// --- Test Setup: Mocks and Interfaces ---
+
+interface User {
+  id: string;
+  email: string;
+}
+
+interface Emailer {
+  send(to: string, subject: string): boolean;
+}
+
+interface Logger {
+  log(message: string): void;
+  history: string[];
+}
+
+const createMockLogger = (): Logger => ({
+  history: [],
+  log(message: string) {
+    this.history.push(message);
+  },
+});
+
+const constructSendWelcome = defineFn(
+  {
+    findUser: required<(id: string) => User | undefined>(),
+    emailer: required<Emailer>(),
+    logger: createMockLogger(),
+    subject: "Welcome!",
+  },
+  ({ findUser, emailer, logger, subject }, id: string) => {
+    const user = findUser(id);
+    if (!user) {
+      logger.log(`User ${id} not found`);
+      return false;
+    }
+    return emailer.send(user.email, subject);
+  },
+);
+
+const alice: User = { id: "1", email: "alice@example.com" };
+
+// --- Test Suite ---
+
+describe("mockDependencies", () => {
+  describe("Core Behavior", () => {
+    it("should replace required dependencies with recording stubs", () => {
+      const { fn: sendWelcome, mocks } = mockDependencies(
+        constructSendWelcome,
+      );
+
+      expect(sendWelcome("1")).toBe(false);
+      expect(mocks.findUser.calls).toEqual([
+        { args: ["1"], returned: undefined },
+      ]);
+    });
+
+    it("should record calls to overridden dependencies and their methods", () => {
+      const { fn: sendWelcome, mocks } = mockDependencies(
+        constructSendWelcome,
+        {
+          overrides: {
+            findUser: () => alice,
+            emailer: { send: () => true },
+          },
+        },
+      );
+
+      expect(sendWelcome("1")).toBe(true);
+      expect(mocks.findUser.calls).toEqual([{ args: ["1"], returned: alice }]);
+      expect(mocks.emailer.send.calls).toEqual([
+        { args: ["alice@example.com", "Welcome!"], returned: true },
+      ]);
+    });
+
+    it("should spy on dependencies with defaults and still call them", () => {
+      const logger = createMockLogger();
+      const construct = defineFn(
+        { logger, makeId: lazy(() => () => "id-1") },
+        ({ logger, makeId }) => logger.log(makeId()),
+      );
+
+      const { fn, mocks } = mockDependencies(construct);
+      fn();
+
+      expect(logger.history).toEqual(["id-1"]);
+      expect(mocks.logger.log.calls).toEqual([
+        { args: ["id-1"], returned: undefined },
+      ]);
+      expect(mocks.makeId.calls).toEqual([{ args: [], returned: "id-1" }]);
+    });
+
+    it("should spy on the methods of frozen objects", () => {
+      const history: string[] = [];
+      const construct = defineFn(
+        {
+          logger: Object.freeze({
+            log: (message: string) => history.push(message),
+          }),
+        },
+        ({ logger }) => logger.log("frozen"),
+      );
+
+      const { fn, mocks } = mockDependencies(construct);
+      fn();
+
+      expect(history).toEqual(["frozen"]);
+      expect(mocks.logger.log.calls).toEqual([{
+        args: ["frozen"],
+        returned: 1,
+      }]);
+    });
+
+    it("should record errors thrown by dependencies", () => {
+      const failure = new Error("not found");
+      const { fn: sendWelcome, mocks } = mockDependencies(
+        constructSendWelcome,
+        {
+          overrides: {
+            findUser: () => {
+              throw failure;
+            },
+          },
+        },
+      );
+
+      expect(() => sendWelcome("1")).toThrow(failure);
+      expect(mocks.findUser.calls).toEqual([{ args: ["1"], error: failure }]);
+    });
+
+    it("should exempt stubs, but not overrides, from validators", () => {
+      const isEmailer = (value: unknown): value is Emailer =>
+        typeof (value as Emailer | null)?.send === "function";
+      const construct = defineFn(
+        { emailer: required(isEmailer) },
+        ({ emailer }) => emailer.send("alice@example.com", "Hi"),
+      );
+
+      expect(mockDependencies(construct).fn()).toBeUndefined();
+      expect(() =>
+        mockDependencies(construct, {
+          overrides: { emailer: {} as Emailer },
+        })
+      ).toThrow(DependencyValidationError);
+    });
+
+    it("should leave optional dependencies out unless they are overridden", () => {
+      const construct = defineFn(
+        { metrics: optional<Logger>() },
+        (deps) => "metrics" in deps,
+      );
+
+      expect(mockDependencies(construct).fn()).toBe(false);
+      expect(mockDependencies(construct, { strict: true }).fn()).toBe(false);
+      expect(
+        mockDependencies(construct, { overrides: { metrics: undefined } }).fn(),
+      ).toBe(true);
+    });
+
+    it("should work with async constructors", async () => {
+      const construct = defineAsyncFn(
+        { findUser: required<(id: string) => Promise<User>>() },
+        ({ findUser }, id: string) => findUser(id),
+      );
+
+      const { fn, mocks } = mockDependencies(construct, {
+        overrides: { findUser: (id) => Promise.resolve({ ...alice, id }) },
+      });
+
+      expect(await (await fn)("2")).toEqual({ ...alice, id: "2" });
+      expect(mocks.findUser.calls[0]?.args).toEqual(["2"]);
+    });
+  });
+
+  describe("Strict Mode", () => {
+    it("should throw an UnexpectedCallError when a stub is called", () => {
+      const { fn: sendWelcome, mocks } = mockDependencies(
+        constructSendWelcome,
+        { strict: true, overrides: { findUser: () => alice } },
+      );
+
+      expect(() => sendWelcome("1")).toThrow(UnexpectedCallError);
+      expect(() => sendWelcome("1")).toThrow(
+        'Unexpected call to "emailer.send"',
+      );
+      expect(mocks.emailer.send.calls).toHaveLength(2);
+    });
+
+    it("should replace dependencies with defaults but keep primitive values", () => {
+      const { fn: sendWelcome } = mockDependencies(constructSendWelcome, {
+        strict: true,
+        overrides: { findUser: () => undefined },
+      });
+
+      expect(() => sendWelcome("1")).toThrow('Unexpected call to "logger.log"');
+    });
+  });
+
+  describe("Type System Integration", () => {
+    it("should type the call history of each dependency", () => {
+      const { fn, mocks } = mockDependencies(constructSendWelcome);
+
+      assertType<IsExact<typeof fn, (id: string) => boolean>>(true);
+      assertType<
+        IsExact<
+          typeof mocks.findUser.calls,
+          readonly MockCall<(id: string) => User | undefined>[]
+        >
+      >(true);
+      assertType<
+        IsExact<
+          typeof mocks.emailer.send.calls,
+          readonly MockCall<(to: string, subject: string) => boolean>[]
+        >
+      >(true);
+
+      // @ts-expect-error `subject` is not a function and has no call history.
+      mocks.subject.calls;
+    });
+
+    it("should produce a type error if an override has the wrong type", () => {
+      mockDependencies(constructSendWelcome, {
+        // @ts-expect-error Type 'string' is not assignable to type 'Emailer'.
+        overrides: { emailer: "not an emailer" },
+      });
+    });
+  });
+});
+
+describe("override", () => {
+  interface Clock {
+    now(): number;
+  }
+
+  const constructNow = defineFn(
+    { clock: { now: () => 1000 } },
+    ({ clock }) => clock.now(),
+  );
+
+  describe("Core Behavior", () => {
+    it("should replace dependencies of functions built before", () => {
+      const now = constructNow();
+      const restoreClock = override(constructNow, { clock: { now: () => 1 } });
+
+      expect(now()).toBe(1);
+      restoreClock();
+      expect(now()).toBe(1000);
+    });
+
+    it("should take precedence over requirements and earlier overrides", () => {
+      const now = constructNow({ clock: { now: () => 2000 } });
+
+      override(constructNow, { clock: { now: () => 1 } });
+      override(constructNow, { clock: { now: () => 2 } });
+      expect(now()).toBe(2);
+
+      restore();
+      expect(now()).toBe(2000);
+    });
+
+    it("should reach functions through the functions that depend on them", () => {
+      const constructGreet = defineFn(
+        { now: required<() => number>() },
+        ({ now }, name: string) => `${name} at ${now()}`,
+      );
+      const greet = constructGreet({ now: constructNow() });
+
+      withOverrides(() => {
+        override(constructNow, { clock: { now: () => 1 } });
+        expect(greet("Alice")).toBe("Alice at 1");
+      });
+
+      expect(greet("Alice")).toBe("Alice at 1000");
+    });
+
+    it("should create and dispose of factories apart from the originals", () => {
+      const disposed: string[] = [];
+      const construct = defineFn(
+        {
+          prefix: "real",
+          label: factory(
+            ({ prefix }: { prefix: string }) => `${prefix} label`,
+            {
+              dispose: (value) => disposed.push(value),
+            },
+          ),
+        },
+        ({ label }) => label,
+      );
+      const getLabel = construct();
+
+      expect(getLabel()).toBe("real label");
+      withOverrides(() => {
+        override(construct, { prefix: "fake" });
+        expect(getLabel()).toBe("fake label");
+      });
+
+      expect(disposed).toEqual(["fake label"]);
+      expect(getLabel()).toBe("real label");
+    });
+
+    it("should replace dependencies of method groups", () => {
+      const construct = defineMethods(
+        { clock: { now: () => 1000 } },
+        {
+          now: ({ clock }) => clock.now(),
+          later: ({ clock }) => clock.now() + 1,
+        },
+      );
+      const methods = construct();
+
+      withOverrides(() => {
+        override(construct, { clock: { now: () => 1 } });
+        expect([methods.now(), methods.later()]).toEqual([1, 2]);
+      });
+    });
+
+    it("should override the constructor a partial was created from", () => {
+      const construct = defineFn(
+        { clock: required<Clock>(), offset: 0 },
+        ({ clock, offset }) => clock.now() + offset,
+      );
+      const now = construct({ clock: { now: () => 1000 } });
+
+      withOverrides(() => {
+        override(partial(construct, { offset: 1 }), { offset: 2 });
+        expect(now()).toBe(1002);
+      });
+    });
+
+    it("should throw a TypeError for constructors created by defineClass", () => {
+      class Timer {
+        deps: { clock: Clock };
+        constructor(deps: { clock: Clock }) {
+          this.deps = deps;
+        }
+      }
+      const construct = defineClass({ clock: { now: () => 1000 } }, Timer);
+
+      expect(() => override(construct, { clock: { now: () => 1 } })).toThrow(
+        TypeError,
+      );
+    });
+  });
+
+  describe("Scoping", () => {
+    it("should restore overrides when withOverrides throws", () => {
+      const now = constructNow();
+      const failure = new Error("failed");
+
+      expect(() =>
+        withOverrides(() => {
+          override(constructNow, { clock: { now: () => 1 } });
+          throw failure;
+        })
+      ).toThrow(failure);
+      expect(now()).toBe(1000);
+    });
+
+    it("should restore overrides once an async function settles", async () => {
+      const construct = defineAsyncFn(
+        { clock: Promise.resolve<Clock>({ now: () => 1000 }) },
+        ({ clock }) => clock.now(),
+      );
+      const now = await construct();
+
+      const result = withOverrides(async () => {
+        override(construct, { clock: { now: () => 1 } });
+        await Promise.resolve();
+        return now();
+      });
+
+      expect(now()).toBe(1);
+      expect(await result).toBe(1);
+      expect(now()).toBe(1000);
+    });
+
+    it("should only restore the overrides of each overlapping call", async () => {
+      const construct = defineFn({ label: "real" }, ({ label }) => label);
+      const getLabel = construct();
+      let finishA = () => {};
+      const aFinished = new Promise<void>((resolve) => finishA = resolve);
+
+      const a = withOverrides(async () => {
+        override(construct, { label: "a" });
+        await aFinished;
+      });
+      const b = withOverrides(async () => {
+        await Promise.resolve();
+        override(construct, { label: "b" });
+        finishA();
+        await a;
+        return getLabel();
+      });
+
+      expect(await b).toBe("b");
+      expect(getLabel()).toBe("real");
+    });
+
+    it("should keep overrides added outside of withOverrides", () => {
+      const now = constructNow();
+
+      override(constructNow, { clock: { now: () => 1 } });
+      withOverrides(() => {
+        override(constructNow, { clock: { now: () => 2 } });
+      });
+
+      expect(now()).toBe(1);
+      restore();
+      expect(now()).toBe(1000);
+    });
+
+    it("should wait for asynchronous cleanup once an async function settles", async () => {
+      const disposed: string[] = [];
+      const construct = defineFn(
+        {
+          prefix: "real",
+          label: factory(
+            ({ prefix }: { prefix: string }) => `${prefix} label`,
+            {
+              dispose: async (value) => {
+                await Promise.resolve();
+                disposed.push(value);
+              },
+            },
+          ),
+        },
+        ({ label }) => label,
+      );
+      const getLabel = construct();
+
+      await withOverrides(async () => {
+        override(construct, { prefix: "fake" });
+        await Promise.resolve();
+        expect(getLabel()).toBe("fake label");
+      });
+
+      expect(disposed).toEqual(["fake label"]);
+    });
+  });
+
+  describe("Type System Integration", () => {
+    it("should produce a type error if an override has the wrong type", () => {
+      withOverrides(() => {
+        // @ts-expect-error Type 'string' is not assignable to type '{ now: () => number; }'.
+        override(constructNow, { clock: "not a clock" });
+        // @ts-expect-error `unknown` is not a dependency.
+        override(constructNow, { unknown: 1 });
+      });
+    });
+  });
+});
@@ -0,0 +1,508 @@
+import {
+  addOverrides,
+  type AsyncDependencies,
+  type AsyncFnConstructor,
+  createAmbientStorage,
+  definitionSymbol,
+  type Dependencies,
+  factorySymbol,
+  type FnDefinition,
+  isFactory,
+  isPromiseLike,
+  isRequired,
+  optionalSymbol,
+  throwDisposalErrors,
+  uncheckedSymbol,
+} from "./index.ts";
+
+/**
+ * A single recorded call of a mocked dependency.
+ * @template F - The type of the called function.
+ */
+export interface MockCall<F extends (...args: never[]) => unknown> {
+  /** The arguments the function was called with. */
+  readonly args: Parameters<F>;
+  /** The value the function returned, if it returned. */
+  readonly returned?: ReturnType<F>;
+  /** The value the function threw, if it threw. */
+  readonly error?: unknown;
+}
+
+/**
+ * The call history of a mocked dependency. Functions expose their own `calls`,
+ * and objects expose the call history of each of their methods.
+ * @template D - The type of the dependency.
+ */
+export type CallHistory<D> =
+  & (D extends (...args: never[]) => unknown
+    ? { readonly calls: readonly MockCall<D>[] }
+    : unknown)
+  & {
+    readonly [
+      K in keyof D as D[K] extends (...args: never[]) => unknown ? K
+        : never
+    ]: CallHistory<D[K]>;
+  };
+
+/**
+ * Options for `mockDependencies`.
+ * @template T - The dependency definition object of the constructor.
+ */
+export interface MockOptions<T extends Record<string, unknown>> {
+  /**
+   * Values to use instead of mocks for individual keys.
+   * Calls to them are recorded like calls to mocks.
+   */
+  overrides?: { readonly [K in keyof T]?: Dependencies<T>[K] };
+  /**
+   * When `true`, every dependency that is not overridden is replaced with a
+   * stub that throws an `UnexpectedCallError` when called. When `false`
+   * (the default), required dependencies are replaced with stubs that return
+   * `undefined`, and dependencies with defaults are spied on and still called.
+   */
+  strict?: boolean;
+}
+
+/**
+ * The result of `mockDependencies`.
+ * @template Fn - The type returned by the constructor.
+ * @template T - The dependency definition object of the constructor.
+ */
+export interface Mocked<Fn, T extends Record<string, unknown>> {
+  /** The function built by the constructor with the mocked dependencies. */
+  readonly fn: Fn;
+  /** The call history of every dependency, by key. */
+  readonly mocks: { readonly [K in keyof T]: CallHistory<Dependencies<T>[K]> };
+}
+
+/**
+ * An error thrown by a strict stub created by `mockDependencies` when it is called.
+ */
+export class UnexpectedCallError extends Error {
+  override name = "UnexpectedCallError";
+  /** The path of the called dependency, e.g. `db.findUser`. */
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Unexpected call to "${path}"`);
+    this.path = path;
+  }
+}
+
+/**
+ * The calls recorded for one function, and for the members accessed on it.
+ */
+interface Recorder {
+  readonly calls: MockCall<(...args: never[]) => unknown>[];
+  readonly members: Map<PropertyKey, Recorder>;
+}
+
+function createRecorder(): Recorder {
+  return { calls: [], members: new Map() };
+}
+
+function memberOf(recorder: Recorder, key: PropertyKey): Recorder {
+  let member = recorder.members.get(key);
+  if (!member) {
+    member = createRecorder();
+    recorder.members.set(key, member);
+  }
+  return member;
+}
+
+function record(
+  recorder: Recorder,
+  args: unknown[],
+  call: () => unknown,
+): unknown {
+  try {
+    const returned = call();
+    recorder.calls.push({ args: args as never, returned: returned as never });
+    return returned;
+  } catch (error) {
+    recorder.calls.push({ args: args as never, error });
+    throw error;
+  }
+}
+
+/**
+ * Creates a stub that records its calls. Any property read from the stub is
+ * another stub, so that objects of any shape can be stood in for.
+ */
+function createStub(recorder: Recorder, path: string, strict: boolean) {
+  const members = new Map<PropertyKey, unknown>();
+
+  return new Proxy(function () {}, {
+    apply: (_target, _thisArg, args) =>
+      record(recorder, args, () => {
+        if (strict) {
+          throw new UnexpectedCallError(path);
+        }
+        return undefined;
+      }),
+    get: (_target, key) => {
+      // Stubs stand in for any shape, so they are exempt from validation.
+      if (key === uncheckedSymbol) {
+        return true;
+      }
+      // Other symbols and `then` are left undefined, so that a stub is not
+      // mistaken for a promise, an iterable or a disposable.
+      if (typeof key === "symbol" || key === "then") {
+        return undefined;
+      }
+      if (!members.has(key)) {
+        members.set(
+          key,
+          createStub(memberOf(recorder, key), `${path}.${key}`, strict),
+        );
+      }
+      return members.get(key);
+    },
+  });
+}
+
+/**
+ * Whether a value can be replaced with a stub or spied on: functions and objects.
+ */
+function isMockable(value: unknown): value is object {
+  return typeof value === "function" ||
+    (typeof value === "object" && value !== null);
+}
+
+/**
+ * Whether `key` is an own property of `target` that can never change. A proxy
+ * must return such a property as it is.
+ */
+function isFixed(target: object, key: PropertyKey): boolean {
+  const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+  return !!descriptor && !descriptor.configurable &&
+    descriptor.writable === false;
+}
+
+function hasFixedProperty(value: object): boolean {
+  return typeof value === "object" &&
+    Reflect.ownKeys(value).some((key) => isFixed(value, key));
+}
+
+/**
+ * Copies an object with all of its own properties made configurable, so that
+ * the methods of frozen objects can be spied on too.
+ */
+function unfreeze(value: object): object {
+  const copy = Object.create(Object.getPrototypeOf(value));
+  for (const key of Reflect.ownKeys(value)) {
+    Object.defineProperty(copy, key, {
+      ...Reflect.getOwnPropertyDescriptor(value, key),
+      configurable: true,
+    });
+  }
+  return copy;
+}
+
+/**
+ * Wraps a real value so that calls to it, and to its methods, are recorded
+ * and then passed through. Values that are neither functions nor objects are
+ * returned as they are.
+ */
+function spyOn(recorder: Recorder, value: unknown): unknown {
+  if (!isMockable(value)) {
+    return value;
+  }
+
+  return new Proxy(hasFixedProperty(value) ? unfreeze(value) : value, {
+    apply: (target, thisArg, args) =>
+      record(
+        recorder,
+        args,
+        () =>
+          Reflect.apply(
+            target as (...args: unknown[]) => unknown,
+            thisArg,
+            args,
+          ),
+      ),
+    get: (target, key) => {
+      const member = Reflect.get(target, key);
+      if (
+        typeof member !== "function" || typeof key === "symbol" ||
+        isFixed(target, key)
+      ) {
+        return member;
+      }
+      const memberRecorder = memberOf(recorder, key);
+      return (...args: unknown[]) =>
+        record(memberRecorder, args, () => Reflect.apply(member, target, args));
+    },
+  });
+}
+
+/**
+ * Exposes a recorder as a `CallHistory`: `calls` for its own calls, and any
+ * other property for the recorder of that member.
+ */
+function historyOf(recorder: Recorder): unknown {
+  return new Proxy({}, {
+    get: (_target, key) =>
+      key === "calls" ? recorder.calls : historyOf(memberOf(recorder, key)),
+  });
+}
+
+/**
+ * Builds a function from a `defineFn` or `defineAsyncFn` constructor with
+ * every dependency replaced by a mock that records its calls.
+ *
+ * Required dependencies are replaced with stubs that accept any call and
+ * return `undefined`, or throw an `UnexpectedCallError` in strict mode.
+ * Dependencies with defaults keep working but have their calls recorded,
+ * unless strict mode replaces them with stubs as well. Optional dependencies
+ * are left out, so the implementation sees them as not provided. Individual
+ * keys can be overridden with real values.
+ *
+ * @template T - The dependency definition object of the constructor.
+ * @template Fn - The type returned by the constructor.
+ * @param constructor - A constructor created by `defineFn` or `defineAsyncFn`.
+ * @param options - Overrides for individual keys and whether to use strict stubs.
+ * @returns The built function and the call history of every dependency.
+ * @example
+ * ```ts
+ * const { fn: sendWelcome, mocks } = mockDependencies(constructSendWelcome, {
+ *   overrides: { findUser: () => ({ id: "1", email: "alice@example.com" }) },
+ * });
+ *
+ * sendWelcome("1");
+ *
+ * expect(mocks.emailer.send.calls[0]?.args).toEqual(["alice@example.com", "Welcome!"]);
+ * ```
+ */
+export function mockDependencies<T extends Record<string, unknown>, Fn>(
+  constructor:
+    & { readonly [definitionSymbol]: FnDefinition<T> }
+    & ((requirements: never) => Fn),
+  options: MockOptions<T> = {},
+): Mocked<Fn, T> {
+  const { strict = false } = options;
+  const overrides: Record<string, unknown> = options.overrides ?? {};
+  const { dependencies } = constructor[definitionSymbol];
+  const requirements: Record<string, unknown> = {};
+  const mocks: Record<string, unknown> = {};
+
+  for (const key of Object.keys(dependencies)) {
+    const recorder = createRecorder();
+    const value = dependencies[key];
+    mocks[key] = historyOf(recorder);
+
+    if (Object.prototype.hasOwnProperty.call(overrides, key)) {
+      requirements[key] = spyOn(recorder, overrides[key]);
+    } else if (value === optionalSymbol) {
+      // Optional dependencies stay absent unless they are overridden, so
+      // that the implementation sees them as not provided.
+      continue;
+    } else if (
+      isRequired(value) ||
+      (strict && isMockable(value))
+    ) {
+      requirements[key] = createStub(recorder, key, strict);
+    } else if (isFactory(value)) {
+      // Keep the factory, and its lifetime, but spy on what it creates.
+      requirements[key] = {
+        ...value,
+        [factorySymbol]: (deps: never) =>
+          spyOn(recorder, value[factorySymbol](deps)),
+      };
+    } else {
+      requirements[key] = spyOn(recorder, value);
+    }
+  }
+
+  return {
+    fn: constructor(requirements as never),
+    mocks: mocks as Mocked<Fn, T>["mocks"],
+  };
+}
+
+/**
+ * The overrides added with `override` that have not been restored yet,
+ * in the order they were added.
+ */
+const activeOverrides: (Disposable & AsyncDisposable)[] = [];
+
+/**
+ * The overrides added by the current `withOverrides` call, which follow it
+ * across `await` where `AsyncLocalStorage` is available, so that overlapping
+ * calls only restore their own.
+ */
+const overrideStorage = createAmbientStorage<
+  (Disposable & AsyncDisposable)[]
+>();
+
+/**
+ * Replaces dependencies of every function built by a constructor, including
+ * functions that were built before, until the override is restored.
+ *
+ * The replaced dependencies are read on every call, so that integration tests
+ * can swap one dependency without rebuilding the functions that depend on it.
+ * Overrides take precedence over the requirements the functions were built
+ * with, and later overrides of the same constructor over earlier ones. Values
+ * of async constructors are used as they are, without being awaited.
+ *
+ * Overriding a constructor created with `partial` overrides the constructor
+ * it was created from. Restore overrides with the returned function, with
+ * `restore`, or by adding them inside `withOverrides`, so that they never leak
+ * between tests. Factories with asynchronous cleanup are only disposed of by
+ * `withOverrides` with an async function.
+ *
+ * @template T - The dependency definition object of the constructor.
+ * @param constructor - A constructor created by `defineFn`, `defineAsyncFn`, `defineGenericFn` or `defineMethods`.
+ * @param overrides - The dependencies to replace, by key.
+ * @returns A function that restores this override.
+ * @throws {TypeError} If the constructor was created by `defineClass`.
+ * @example
+ * ```ts
+ * const sendReminders = constructSendReminders({ db });
+ *
+ * afterEach(() => restore());
+ *
+ * it("should send reminders for overdue tasks", () => {
+ *   override(constructIsOverdue, { clock: fakeClock });
+ *   sendReminders();
+ * });
+ * ```
+ */
+export function override<T extends Record<string, unknown>>(
+  constructor: AsyncFnConstructor<T, unknown>,
+  overrides: { readonly [K in keyof T]?: AsyncDependencies<T>[K] },
+): () => void;
+export function override<T extends Record<string, unknown>>(
+  constructor:
+    & { readonly [definitionSymbol]: FnDefinition<T> }
+    & ((requirements: never) => unknown),
+  overrides: { readonly [K in keyof T]?: Dependencies<T>[K] },
+): () => void;
+export function override(
+  constructor: {
+    readonly [definitionSymbol]: FnDefinition<Record<string, unknown>>;
+  },
+  overrides: Record<string, unknown>,
+): () => void {
+  const { name, overrideTarget } = constructor[definitionSymbol];
+  if (!overrideTarget) {
+    throw new TypeError(
+      `The functions built by "${name}" cannot be overridden, as their dependencies are passed to a class once`,
+    );
+  }
+
+  const added = addOverrides(overrideTarget, overrides);
+  activeOverrides.push(added);
+  overrideStorage.getStore()?.push(added);
+  return () => restoreOverrides([added]);
+}
+
+/**
+ * Removes the overrides that are still active from `overrides`, and from
+ * `activeOverrides`, latest first.
+ */
+function removeActive(
+  overrides: readonly (Disposable & AsyncDisposable)[],
+): (Disposable & AsyncDisposable)[] {
+  const removed: (Disposable & AsyncDisposable)[] = [];
+  for (const added of overrides.slice().reverse()) {
+    const index = activeOverrides.indexOf(added);
+    if (index !== -1) {
+      activeOverrides.splice(index, 1);
+      removed.push(added);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Restores the given overrides that are still active, latest first.
+ */
+function restoreOverrides(
+  overrides: readonly (Disposable & AsyncDisposable)[],
+): void {
+  const errors: unknown[] = [];
+  for (const added of removeActive(overrides)) {
+    try {
+      added[Symbol.dispose]();
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  throwDisposalErrors(errors);
+}
+
+/**
+ * Like `restoreOverrides`, but waits for the asynchronous cleanup of the
+ * values created while the overrides were active.
+ */
+async function restoreOverridesAsync(
+  overrides: readonly (Disposable & AsyncDisposable)[],
+): Promise<void> {
+  const errors: unknown[] = [];
+  for (const added of removeActive(overrides)) {
+    try {
+      await added[Symbol.asyncDispose]();
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  throwDisposalErrors(errors);
+}
+
+/**
+ * Restores every override added with `override`, latest first.
+ *
+ * @example
+ * ```ts
+ * afterEach(() => restore());
+ * ```
+ */
+export function restore(): void {
+  restoreOverrides(activeOverrides);
+}
+
+/**
+ * Runs `fn`, then restores the overrides that `fn` added. If `fn` returns a
+ * promise, they are restored once it settles, and overrides added by other
+ * `withOverrides` calls running at the same time are left alone. On runtimes
+ * without `AsyncLocalStorage`, overrides added after the first `await` are
+ * only restored by `restore`.
+ *
+ * @template R - The return type of `fn`.
+ * @param fn - The function that adds overrides and runs the code under test.
+ * @returns The return value of `fn`.
+ * @example
+ * ```ts
+ * it("should send reminders for overdue tasks", () =>
+ *   withOverrides(async () => {
+ *     override(constructIsOverdue, { clock: fakeClock });
+ *     await sendReminders();
+ *   }));
+ * ```
+ */
+export function withOverrides<R>(fn: () => R): R {
+  const added: (Disposable & AsyncDisposable)[] = [];
+  let result: R;
+  try {
+    result = overrideStorage.run(added, fn);
+  } catch (error) {
+    restoreOverrides(added);
+    throw error;
+  }
+
+  if (!isPromiseLike(result)) {
+    restoreOverrides(added);
+    return result;
+  }
+  return result.then(
+    async (value) => {
+      await restoreOverridesAsync(added);
+      return value;
+    },
+    async (error) => {
+      await restoreOverridesAsync(added);
+      throw error;
+    },
+  ) as R;
+}